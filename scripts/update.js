@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 
 const {ok} = require('node:assert');
-const {mkdir, rm, writeFile} = require('node:fs/promises');
+const {mkdir, writeFile} = require('node:fs/promises');
 const {sep} = require('node:path');
 const {Readable} = require('node:stream');
 const {text} = require('node:stream/consumers');
@@ -46,8 +46,8 @@ if(version.includes('-'))
 {
   const [response] = await Promise.all([
     fetch(`https://api.github.com/repos/${repo}/tarball/${version}`),
-    rm('src', options)
-    .then(mkdir.bind(null, 'src', options))
+    // Don't remove `src` folder, it also contains our own modules (like `sdp`)
+    mkdir('src', options)
   ])
 
   ok(response.ok, response.statusText)
@@ -93,10 +93,12 @@ if(version.includes('-'))
         './supportedRtpCapabilities',
         './scalabilityModesUtils',
         './rtpParametersTypes',
+        './sctpParametersTypes',
         './utils'
       ]
       const functionIdentifiers = [
         'validateRtpCapabilities',
+        'validateRtpParameters',
         'generateRouterRtpCapabilities',
         'getProducerRtpParametersMapping',
         'getConsumableRtpParameters',
@@ -107,7 +109,12 @@ if(version.includes('-'))
         'matchCodecs',
         'validateRtpCodecCapability',
         'validateRtcpFeedback',
-        'validateRtpHeaderExtension'
+        'validateRtpHeaderExtension',
+        'validateRtpCodecParameters',
+        'validateRtpHeaderExtensionParameters',
+        'validateRtpEncodingParameters',
+        'validateRtcpParameters',
+        'validateSctpStreamParameters'
       ]
 
       content = [];
@@ -124,11 +131,6 @@ if(version.includes('-'))
                 './scalabilityModesUtils', '@mafalda-sfu/scalabilitymodesutils'
               )
 
-            else if(line.includes('./rtpParametersTypes'))
-              line = line.replace(
-                '\n\tRtpHeaderExtensionParameters,\n\tRtcpParameters,', ''
-              )
-
             content.push(line);
           }
         }
@@ -158,8 +160,10 @@ if(version.includes('-'))
       continue
     }
 
-    if(path === 'node/src/rtpParametersTypes.ts')
-    {
+    if(
+      path === 'node/src/rtpParametersTypes.ts' ||
+      path === 'node/src/sctpParametersTypes.ts'
+    ) {
       path = path.split(sep)
       path.shift()
       path = path.join(sep)
@@ -0,0 +1,143 @@
+import { ValidationError } from './ortcErrors';
+
+
+// Dynamic payload types allocated by default, in order.
+const DynamicPayloadTypes = [
+	100, 101, 102, 103, 104, 105, 106, 107, 108, 109, 110, 111, 112, 113, 114,
+	115, 116, 117, 118, 119, 120, 121, 122, 123, 124, 125, 126, 127, 96, 97, 98,
+	99,
+];
+
+
+// Low dynamic payload types (RFC 8829 section 5.1.4).
+const LowDynamicPayloadTypes = [
+	35, 36, 37, 38, 39, 40, 41, 42, 43, 44, 45, 46, 47, 48, 49, 50, 51, 52, 53,
+	54, 55, 56, 57, 58, 59, 60, 61, 62, 63,
+];
+
+
+export type PayloadTypeAllocatorOptions = {
+	/**
+	 * Dynamic payload types to allocate, in order. Default 100 to 127 and then
+	 * 96 to 99.
+	 */
+	payloadTypes?: number[];
+
+	/**
+	 * Whether to also allocate payload types in the 35 to 63 range once the
+	 * given ones are exhausted. Default false.
+	 */
+	useLowDynamicRange?: boolean;
+
+	/**
+	 * Payload types that must never be allocated.
+	 */
+	excludedPayloadTypes?: number[];
+};
+
+
+/**
+ * Allocates the payload types of the codecs of the Router RTP capabilities.
+ * Payload types in the 64 to 95 range are rejected since they conflict with
+ * RTCP packet types when RTP and RTCP are multiplexed (RFC 5761).
+ */
+export class PayloadTypeAllocator {
+	// Available payload types, in allocation order.
+	readonly #payloadTypes: number[];
+
+	constructor({
+		payloadTypes = DynamicPayloadTypes,
+		useLowDynamicRange = false,
+		excludedPayloadTypes = [],
+	}: PayloadTypeAllocatorOptions = {}) {
+		if (!Array.isArray(payloadTypes)) {
+			throw new ValidationError('payloadTypes must be an Array', {
+				code: 'INVALID_TYPE',
+				path: 'payloadTypes',
+				value: payloadTypes,
+				expected: 'array',
+			});
+		}
+
+		for (const [idx, payloadType] of payloadTypes.entries()) {
+			validatePayloadType(payloadType, `payloadTypes[${idx}]`);
+
+			if (payloadTypes.indexOf(payloadType) !== idx) {
+				throw new ValidationError('duplicated payload type', {
+					code: 'DUPLICATED_VALUE',
+					path: `payloadTypes[${idx}]`,
+					value: payloadType,
+					expected: 'unique payload type',
+				});
+			}
+		}
+
+		if (!Array.isArray(excludedPayloadTypes)) {
+			throw new ValidationError('excludedPayloadTypes must be an Array', {
+				code: 'INVALID_TYPE',
+				path: 'excludedPayloadTypes',
+				value: excludedPayloadTypes,
+				expected: 'array',
+			});
+		}
+
+		this.#payloadTypes = [
+			...payloadTypes,
+			...(useLowDynamicRange
+				? LowDynamicPayloadTypes.filter(pt => !payloadTypes.includes(pt))
+				: []),
+		].filter(pt => !excludedPayloadTypes.includes(pt));
+	}
+
+	/**
+	 * Take the next available payload type.
+	 * It throws if there are no available payload types.
+	 */
+	allocate(): number {
+		const payloadType = this.#payloadTypes.shift();
+
+		if (payloadType === undefined) {
+			throw new Error('cannot allocate more dynamic codec payload types');
+		}
+
+		return payloadType;
+	}
+
+	/**
+	 * Mark the given payload type as used (e.g. the preferred payload type of a
+	 * codec), so it's not allocated.
+	 */
+	reserve(payloadType: number): void {
+		const idx = this.#payloadTypes.indexOf(payloadType);
+
+		if (idx > -1) {
+			this.#payloadTypes.splice(idx, 1);
+		}
+	}
+}
+
+
+function validatePayloadType(payloadType: number, path: string): void {
+	if (
+		typeof payloadType !== 'number' ||
+		!Number.isInteger(payloadType) ||
+		payloadType < 0 ||
+		payloadType > 127
+	) {
+		throw new ValidationError('invalid payload type', {
+			code: 'INVALID_VALUE',
+			path,
+			value: payloadType,
+			expected: 'integer between 0 and 127',
+		});
+	}
+
+	if (payloadType >= 64 && payloadType <= 95) {
+		throw new ValidationError('payload type conflicts with RTCP', {
+			code: 'INVALID_VALUE',
+			path,
+			value: payloadType,
+			expected: 'payload type out of the 64 to 95 range',
+		});
+	}
+}
@@ -0,0 +1,182 @@
+import type { RtpCodecsEncodingsMapping } from './negotiation';
+
+import * as utils from './utils';
+import type { DeepReadonly } from './ortcUtils';
+
+import { ValidationError } from './ortcErrors';
+
+
+export type RtpCodecMapping = RtpCodecsEncodingsMapping['codecs'][number];
+
+
+export type RtpEncodingMapping = RtpCodecsEncodingsMapping['encodings'][number];
+
+
+/**
+ * Indexes the output of getProducerRtpParametersMapping() to look up codecs
+ * and encodings in both directions: from the Producer payload types, SSRCs
+ * (media, RTX or FEC) and rids to the Router ones, and back. It's serialized
+ * as the given mapping, so it can be rebuilt from its JSON.
+ */
+export class RtpMapping {
+	// Given mapping.
+	readonly #mapping: DeepReadonly<RtpCodecsEncodingsMapping>;
+
+	// Codecs indexed by Producer payload type.
+	readonly #codecsByPayloadType = new Map<
+		number,
+		DeepReadonly<RtpCodecMapping>
+	>();
+
+	// Codecs indexed by mapped payload type.
+	readonly #codecsByMappedPayloadType = new Map<
+		number,
+		DeepReadonly<RtpCodecMapping>
+	>();
+
+	// Encodings indexed by Producer media, RTX and FEC SSRCs.
+	readonly #encodingsBySsrc = new Map<
+		number,
+		DeepReadonly<RtpEncodingMapping>
+	>();
+
+	// Encodings indexed by rid.
+	readonly #encodingsByRid = new Map<
+		string,
+		DeepReadonly<RtpEncodingMapping>
+	>();
+
+	// Encodings indexed by mapped media and FEC SSRCs.
+	readonly #encodingsByMappedSsrc = new Map<
+		number,
+		DeepReadonly<RtpEncodingMapping>
+	>();
+
+	/**
+	 * It throws if the given mapping has duplicated payload types, SSRCs or
+	 * rids.
+	 */
+	constructor(mapping: DeepReadonly<RtpCodecsEncodingsMapping>) {
+		this.#mapping = utils.clone(mapping);
+
+		for (const [idx, codec] of this.#mapping.codecs.entries()) {
+			const path = `codecs[${idx}]`;
+
+			// This may throw.
+			addEntry(
+				this.#codecsByPayloadType,
+				codec.payloadType,
+				codec,
+				`${path}.payloadType`
+			);
+			addEntry(
+				this.#codecsByMappedPayloadType,
+				codec.mappedPayloadType,
+				codec,
+				`${path}.mappedPayloadType`
+			);
+		}
+
+		for (const [idx, encoding] of this.#mapping.encodings.entries()) {
+			const path = `encodings[${idx}]`;
+
+			// This may throw.
+			addEntry(this.#encodingsBySsrc, encoding.ssrc, encoding, `${path}.ssrc`);
+			addEntry(
+				this.#encodingsBySsrc,
+				encoding.rtxSsrc,
+				encoding,
+				`${path}.rtxSsrc`
+			);
+			addEntry(
+				this.#encodingsBySsrc,
+				encoding.fecSsrc,
+				encoding,
+				`${path}.fecSsrc`
+			);
+			addEntry(this.#encodingsByRid, encoding.rid, encoding, `${path}.rid`);
+			addEntry(
+				this.#encodingsByMappedSsrc,
+				encoding.mappedSsrc,
+				encoding,
+				`${path}.mappedSsrc`
+			);
+			addEntry(
+				this.#encodingsByMappedSsrc,
+				encoding.mappedFecSsrc,
+				encoding,
+				`${path}.mappedFecSsrc`
+			);
+		}
+	}
+
+	/**
+	 * Get the codec mapping of the given Producer payload type.
+	 */
+	getCodecByPayloadType(
+		payloadType: number
+	): DeepReadonly<RtpCodecMapping> | undefined {
+		return this.#codecsByPayloadType.get(payloadType);
+	}
+
+	/**
+	 * Get the codec mapping of the given Router payload type.
+	 */
+	getCodecByMappedPayloadType(
+		mappedPayloadType: number
+	): DeepReadonly<RtpCodecMapping> | undefined {
+		return this.#codecsByMappedPayloadType.get(mappedPayloadType);
+	}
+
+	/**
+	 * Get the encoding mapping of the given Producer media, RTX or FEC SSRC.
+	 */
+	getEncodingBySsrc(
+		ssrc: number
+	): DeepReadonly<RtpEncodingMapping> | undefined {
+		return this.#encodingsBySsrc.get(ssrc);
+	}
+
+	/**
+	 * Get the encoding mapping of the given Producer rid.
+	 */
+	getEncodingByRid(rid: string): DeepReadonly<RtpEncodingMapping> | undefined {
+		return this.#encodingsByRid.get(rid);
+	}
+
+	/**
+	 * Get the encoding mapping of the given Router media or FEC SSRC.
+	 */
+	getEncodingByMappedSsrc(
+		mappedSsrc: number
+	): DeepReadonly<RtpEncodingMapping> | undefined {
+		return this.#encodingsByMappedSsrc.get(mappedSsrc);
+	}
+
+	toJSON(): RtpCodecsEncodingsMapping {
+		return utils.clone(this.#mapping) as RtpCodecsEncodingsMapping;
+	}
+}
+
+
+function addEntry<K, V>(
+	map: Map<K, V>,
+	key: K | undefined,
+	value: V,
+	path: string
+): void {
+	if (key === undefined) {
+		return;
+	}
+
+	if (map.has(key)) {
+		throw new ValidationError(`duplicated value [${path}:${key}]`, {
+			code: 'DUPLICATED_VALUE',
+			path,
+			value: key,
+			expected: 'unique value',
+		});
+	}
+
+	map.set(key, value);
+}
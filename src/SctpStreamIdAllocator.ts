@@ -0,0 +1,60 @@
+import type { SctpParameters } from './sctpParametersTypes';
+
+import { ValidationError } from './ortcErrors';
+
+
+/**
+ * Allocates the SCTP stream ids used by the DataConsumers of a transport. The
+ * number of available stream ids is given by the MIS value of the transport
+ * SCTP parameters.
+ */
+export class SctpStreamIdAllocator {
+	// Map of used SCTP stream ids. Values are 0 or 1.
+	readonly #sctpStreamIds: Uint8Array;
+
+	// Next SCTP stream id to try.
+	#nextSctpStreamId = 0;
+
+	constructor(sctpParameters: Pick<SctpParameters, 'MIS'>) {
+		if (!sctpParameters || typeof sctpParameters.MIS !== 'number') {
+			throw new ValidationError('missing sctpParameters.MIS', {
+				code: 'MISSING_FIELD',
+				path: 'MIS',
+				value: sctpParameters?.MIS,
+				expected: 'number',
+			});
+		}
+
+		this.#sctpStreamIds = new Uint8Array(sctpParameters.MIS);
+	}
+
+	/**
+	 * Reserve the next free SCTP stream id.
+	 * It throws if there are no free stream ids.
+	 */
+	allocate(): number {
+		const numStreams = this.#sctpStreamIds.length;
+
+		for (let idx = 0; idx < numStreams; ++idx) {
+			const sctpStreamId = (this.#nextSctpStreamId + idx) % numStreams;
+
+			if (!this.#sctpStreamIds[sctpStreamId]) {
+				this.#sctpStreamIds[sctpStreamId] = 1;
+				this.#nextSctpStreamId = sctpStreamId + 1;
+
+				return sctpStreamId;
+			}
+		}
+
+		throw new Error('no sctpStreamId available');
+	}
+
+	/**
+	 * Free the given SCTP stream id (e.g. when its DataConsumer is closed).
+	 */
+	release(sctpStreamId: number): void {
+		if (sctpStreamId >= 0 && sctpStreamId < this.#sctpStreamIds.length) {
+			this.#sctpStreamIds[sctpStreamId] = 0;
+		}
+	}
+}
@@ -0,0 +1,82 @@
+import * as utils from './utils';
+import type { RandomNumberGenerator } from './ortcUtils';
+
+
+// Maximum number of random SSRCs to try before giving up.
+const MaxAllocationAttempts = 100;
+
+
+/**
+ * Allocates the SSRCs used by a transport or a router, so the same SSRC is
+ * never handed out twice until it's released. SSRCs are allocated in blocks of
+ * consecutive values, so an SSRC plus an index (like the one of each simulcast
+ * encoding) doesn't collide with SSRCs of other blocks either.
+ */
+export class SsrcAllocator {
+	// Set of used SSRCs.
+	readonly #ssrcs = new Set<number>();
+
+	// Function generating the candidate base SSRCs.
+	readonly #generateRandomNumber: RandomNumberGenerator;
+
+	constructor({
+		generateRandomNumber = utils.generateRandomNumber,
+	}: { generateRandomNumber?: RandomNumberGenerator } = {}) {
+		this.#generateRandomNumber = generateRandomNumber;
+	}
+
+	/**
+	 * Reserve a block of the given number of consecutive free SSRCs and return
+	 * the first one.
+	 * It throws if no free block is found.
+	 */
+	allocate(count = 1): number {
+		for (let attempt = 0; attempt < MaxAllocationAttempts; ++attempt) {
+			const baseSsrc = this.#generateRandomNumber();
+
+			// SSRCs are 32 bits unsigned integers.
+			if (baseSsrc < 0 || baseSsrc + count - 1 > 0xffffffff) {
+				continue;
+			}
+
+			let available = true;
+
+			for (let idx = 0; idx < count; ++idx) {
+				if (this.#ssrcs.has(baseSsrc + idx)) {
+					available = false;
+
+					break;
+				}
+			}
+
+			if (!available) {
+				continue;
+			}
+
+			for (let idx = 0; idx < count; ++idx) {
+				this.#ssrcs.add(baseSsrc + idx);
+			}
+
+			return baseSsrc;
+		}
+
+		throw new Error('no ssrc available');
+	}
+
+	/**
+	 * Free the given number of consecutive SSRCs starting at the given one (e.g.
+	 * when their Consumer is closed).
+	 */
+	release(ssrc: number, count = 1): void {
+		for (let idx = 0; idx < count; ++idx) {
+			this.#ssrcs.delete(ssrc + idx);
+		}
+	}
+
+	/**
+	 * Whether the given SSRC is in use.
+	 */
+	has(ssrc: number): boolean {
+		return this.#ssrcs.has(ssrc);
+	}
+}
@@ -0,0 +1,746 @@
+import * as h264 from 'h264-profile-level-id';
+
+import type {
+	RtpCodecCapability,
+	RouterRtpCodecCapability,
+	RtpCodecParameters,
+	RtpHeaderExtension,
+} from './ortcRtpParametersTypes';
+
+import { supportedRtpCapabilities } from './ortcSupportedRtpCapabilities';
+import {
+	normalizeRtpCodecCapability,
+	normalizeRtpHeaderExtension,
+} from './validation';
+
+import { joinPath } from './ortcUtils';
+import type { DeepReadonly } from './ortcUtils';
+
+import { ValidationError } from './ortcErrors';
+
+
+export type AnyRtpCodec =
+	| RtpCodecCapability
+	| RouterRtpCodecCapability
+	| RtpCodecParameters;
+
+
+/**
+ * Codec specific checks of two codecs with the same MIME type, clock rate and
+ * channels. When strict, both codecs must also be able to interoperate (same
+ * profile, packetization mode, etc).
+ * It returns true if they match. Otherwise it returns false or, to explain the
+ * mismatch, the name of the codec parameter that doesn't match.
+ */
+export type CodecMatcher = (
+	aCodec: DeepReadonly<AnyRtpCodec>,
+	bCodec: DeepReadonly<AnyRtpCodec>,
+	options: { strict: boolean }
+) => boolean | string;
+
+
+/**
+ * Get the parameters of the first given codec once negotiated with the second
+ * one, that has been previously matched in strict mode. It must return a new
+ * object and not modify given codecs.
+ */
+export type CodecParametersNegotiator = (
+	aCodec: DeepReadonly<AnyRtpCodec>,
+	bCodec: DeepReadonly<AnyRtpCodec>
+) => Record<string, unknown>;
+
+
+export type CodecRegistration = {
+	/**
+	 * Codec to be offered by generateRouterRtpCapabilities() in addition to the
+	 * supported ones. Not needed when only customizing the matching of an
+	 * already supported codec.
+	 */
+	codec?: RouterRtpCodecCapability;
+
+	/**
+	 * RTP header extensions required by the codec, offered by
+	 * generateRouterRtpCapabilities() in addition to the supported ones.
+	 */
+	headerExtensions?: RtpHeaderExtension[];
+
+	/**
+	 * Codec specific matching. If unset, codecs just need to have the same MIME
+	 * type, clock rate and channels.
+	 */
+	match?: CodecMatcher;
+
+	/**
+	 * Codec specific parameters negotiation. If unset, the parameters of the
+	 * codec are kept as is.
+	 */
+	negotiateParameters?: CodecParametersNegotiator;
+};
+
+
+// Valid H265 'level-id' values (level number multiplied by 30).
+const H265LevelIds = [
+	30, 60, 63, 90, 93, 120, 123, 150, 153, 156, 180, 183, 186,
+];
+
+
+// Registered codecs indexed by lowercase MIME type. It's shared by the whole
+// process, so registrations apply to every Router.
+const registrations = new Map<string, CodecRegistration>();
+
+
+/**
+ * Register a codec with its matching and parameters negotiation hooks. A
+ * previous registration of the same MIME type (including the default ones) is
+ * replaced.
+ *
+ * The registry is a mutable singleton shared by the whole process, so a
+ * registration affects all the Routers, including the ones already created.
+ *
+ * The given codec and header extensions are validated and stored as
+ * normalized copies. It throws if invalid, or if a header extension uses the
+ * preferredId of another one of the same kind (supported or registered).
+ */
+export function registerCodec(
+	mimeType: string,
+	registration: CodecRegistration
+): void {
+	if (typeof mimeType !== 'string' || !/.+\/.+/.test(mimeType)) {
+		throw new ValidationError('invalid mimeType', {
+			code: 'INVALID_VALUE',
+			path: 'mimeType',
+			value: mimeType,
+			expected: 'type/subtype string',
+		});
+	}
+
+	if (typeof registration !== 'object' || !registration) {
+		throw new ValidationError('registration is not an object', {
+			code: 'INVALID_TYPE',
+			path: 'registration',
+			value: registration,
+			expected: 'object',
+		});
+	}
+
+	const { codec, headerExtensions, match, negotiateParameters } = registration;
+
+	if (
+		codec !== undefined &&
+		codec?.mimeType?.toLowerCase() !== mimeType.toLowerCase()
+	) {
+		throw new ValidationError('codec.mimeType does not match mimeType', {
+			code: 'CONFLICTING_FIELDS',
+			path: 'registration.codec.mimeType',
+			value: codec?.mimeType,
+			expected: mimeType,
+		});
+	}
+
+	if (
+		codec?.kind !== undefined &&
+		codec.kind !== mimeType.split('/')[0]!.toLowerCase()
+	) {
+		throw new ValidationError('codec.kind does not match mimeType', {
+			code: 'CONFLICTING_FIELDS',
+			path: 'registration.codec.kind',
+			value: codec.kind,
+			expected: mimeType.split('/')[0]!.toLowerCase(),
+		});
+	}
+
+	// This may throw.
+	const normalizedCodec =
+		codec && normalizeRtpCodecCapability(codec, 'registration.codec');
+
+	if (headerExtensions !== undefined && !Array.isArray(headerExtensions)) {
+		throw new ValidationError('headerExtensions must be an Array', {
+			code: 'INVALID_TYPE',
+			path: 'registration.headerExtensions',
+			value: headerExtensions,
+			expected: 'array',
+		});
+	}
+
+	// This may throw.
+	const normalizedHeaderExtensions = headerExtensions?.map((ext, idx) =>
+		normalizeRtpHeaderExtension(
+			ext,
+			joinPath('registration.headerExtensions', idx)
+		)
+	);
+
+	if (normalizedHeaderExtensions) {
+		// This may throw.
+		validateRegisteredHeaderExtensions(
+			normalizedHeaderExtensions,
+			mimeType
+		);
+	}
+
+	if (match !== undefined && typeof match !== 'function') {
+		throw new ValidationError('match must be a function', {
+			code: 'INVALID_TYPE',
+			path: 'registration.match',
+			value: match,
+			expected: 'function',
+		});
+	}
+
+	if (
+		negotiateParameters !== undefined &&
+		typeof negotiateParameters !== 'function'
+	) {
+		throw new ValidationError('negotiateParameters must be a function', {
+			code: 'INVALID_TYPE',
+			path: 'registration.negotiateParameters',
+			value: negotiateParameters,
+			expected: 'function',
+		});
+	}
+
+	registrations.set(mimeType.toLowerCase(), {
+		...registration,
+		codec: normalizedCodec,
+		headerExtensions: normalizedHeaderExtensions,
+	});
+}
+
+
+/**
+ * Unregister the codec with the given MIME type. It returns whether it was
+ * registered.
+ */
+export function unregisterCodec(mimeType: string): boolean {
+	return registrations.delete(mimeType.toLowerCase());
+}
+
+
+/**
+ * Get the registration of the codec with the given MIME type, if any.
+ */
+export function getCodecRegistration(
+	mimeType: string
+): CodecRegistration | undefined {
+	return registrations.get(mimeType.toLowerCase());
+}
+
+
+/**
+ * Get the codecs to be offered in addition to the supported ones.
+ */
+export function getRegisteredCodecs(): RouterRtpCodecCapability[] {
+	const codecs: RouterRtpCodecCapability[] = [];
+
+	for (const { codec } of registrations.values()) {
+		if (codec) {
+			codecs.push(codec);
+		}
+	}
+
+	return codecs;
+}
+
+
+/**
+ * Get the RTP header extensions to be offered in addition to the supported
+ * ones.
+ */
+export function getRegisteredHeaderExtensions(): RtpHeaderExtension[] {
+	const headerExtensions: RtpHeaderExtension[] = [];
+
+	for (const registration of registrations.values()) {
+		headerExtensions.push(...(registration.headerExtensions ?? []));
+	}
+
+	return headerExtensions;
+}
+
+
+export function isRtxCodec(codec: DeepReadonly<AnyRtpCodec>): boolean {
+	return /.+\/rtx$/i.test(codec.mimeType);
+}
+
+
+export function isRedCodec(codec: DeepReadonly<AnyRtpCodec>): boolean {
+	return /.+\/red$/i.test(codec.mimeType);
+}
+
+
+export function isFecCodec(codec: DeepReadonly<AnyRtpCodec>): boolean {
+	return /.+\/(ulpfec|flexfec-03)$/i.test(codec.mimeType);
+}
+
+
+export function isFlexfecCodec(codec: DeepReadonly<AnyRtpCodec>): boolean {
+	return /.+\/flexfec-03$/i.test(codec.mimeType);
+}
+
+
+/**
+ * Whether the given codec carries media by itself (so it's not RTX, RED or
+ * FEC).
+ */
+export function isMediaCodec(codec: DeepReadonly<AnyRtpCodec>): boolean {
+	return !isRtxCodec(codec) && !isRedCodec(codec) && !isFecCodec(codec);
+}
+
+
+/**
+ * Get the payload types of the primary codecs of the given RED codec, as
+ * listed in its 'fmtp' (such as '111/111').
+ */
+export function getRedPrimaryPayloadTypes(
+	codec: DeepReadonly<AnyRtpCodec>
+): number[] {
+	const value = codec.parameters?.[''];
+
+	if (value === undefined || value === '') {
+		return [];
+	}
+
+	return String(value).split('/').map(Number);
+}
+
+
+export function matchCodecs(
+	aCodec: DeepReadonly<AnyRtpCodec>,
+	bCodec: DeepReadonly<AnyRtpCodec>,
+	{ strict = false } = {}
+): boolean {
+	return getCodecMismatch(aCodec, bCodec, { strict }) === undefined;
+}
+
+
+/**
+ * Get the field of the given codecs that doesn't match (such as 'clockRate' or
+ * 'parameters.profile-id'), if any.
+ */
+export function getCodecMismatch(
+	aCodec: DeepReadonly<AnyRtpCodec>,
+	bCodec: DeepReadonly<AnyRtpCodec>,
+	{ strict = false } = {}
+): string | undefined {
+	const aMimeType = aCodec.mimeType.toLowerCase();
+	const bMimeType = bCodec.mimeType.toLowerCase();
+
+	if (aMimeType !== bMimeType) {
+		return 'mimeType';
+	}
+
+	if (aCodec.clockRate !== bCodec.clockRate) {
+		return 'clockRate';
+	}
+
+	if (aCodec.channels !== bCodec.channels) {
+		return 'channels';
+	}
+
+	// Per codec special checks.
+	const match = getCodecRegistration(aMimeType)?.match?.(aCodec, bCodec, {
+		strict,
+	});
+
+	if (match === false) {
+		return 'parameters';
+	} else if (typeof match === 'string') {
+		return joinPath('parameters', match);
+	}
+
+	return undefined;
+}
+
+
+/**
+ * Get the parameters of the given codec once negotiated with the given
+ * matching codec (such as the H264 'profile-level-id' of the answer). It
+ * returns a new object and doesn't modify given codecs.
+ */
+export function getNegotiatedCodecParameters(
+	aCodec: DeepReadonly<AnyRtpCodec>,
+	bCodec: DeepReadonly<AnyRtpCodec>
+): Record<string, unknown> {
+	const registration = getCodecRegistration(aCodec.mimeType);
+
+	if (registration?.negotiateParameters) {
+		return registration.negotiateParameters(aCodec, bCodec);
+	}
+
+	return { ...aCodec.parameters };
+}
+
+
+
+function matchMultiopus(
+	aCodec: DeepReadonly<AnyRtpCodec>,
+	bCodec: DeepReadonly<AnyRtpCodec>
+): boolean | string {
+	const aNumStreams = aCodec.parameters!['num_streams'];
+	const bNumStreams = bCodec.parameters!['num_streams'];
+
+	if (aNumStreams !== bNumStreams) {
+		return 'num_streams';
+	}
+
+	const aCoupledStreams = aCodec.parameters!['coupled_streams'];
+	const bCoupledStreams = bCodec.parameters!['coupled_streams'];
+
+	if (aCoupledStreams !== bCoupledStreams) {
+		return 'coupled_streams';
+	}
+
+	return true;
+}
+
+
+function matchH264(
+	aCodec: DeepReadonly<AnyRtpCodec>,
+	bCodec: DeepReadonly<AnyRtpCodec>,
+	{ strict }: { strict: boolean }
+): boolean | string {
+	if (!strict) {
+		return true;
+	}
+
+	const aPacketizationMode = aCodec.parameters!['packetization-mode'] || 0;
+	const bPacketizationMode = bCodec.parameters!['packetization-mode'] || 0;
+
+	if (aPacketizationMode !== bPacketizationMode) {
+		return 'packetization-mode';
+	}
+
+	if (!h264.isSameProfile(aCodec.parameters, bCodec.parameters)) {
+		return 'profile-level-id';
+	}
+
+	try {
+		h264.generateProfileLevelIdStringForAnswer(
+			aCodec.parameters,
+			bCodec.parameters
+		);
+	} catch (error) {
+		return 'profile-level-id';
+	}
+
+	return true;
+}
+
+
+function negotiateH264Parameters(
+	aCodec: DeepReadonly<AnyRtpCodec>,
+	bCodec: DeepReadonly<AnyRtpCodec>
+): Record<string, unknown> {
+	const parameters: Record<string, unknown> = { ...aCodec.parameters };
+
+	const selectedProfileLevelId = h264.generateProfileLevelIdStringForAnswer(
+		aCodec.parameters,
+		bCodec.parameters
+	);
+
+	if (selectedProfileLevelId) {
+		parameters['profile-level-id'] = selectedProfileLevelId;
+	} else {
+		delete parameters['profile-level-id'];
+	}
+
+	return parameters;
+}
+
+
+function matchH265(
+	aCodec: DeepReadonly<AnyRtpCodec>,
+	bCodec: DeepReadonly<AnyRtpCodec>,
+	{ strict }: { strict: boolean }
+): boolean | string {
+	if (!strict) {
+		return true;
+	}
+
+	const aProfileTierLevel = parseH265ProfileTierLevel(aCodec.parameters);
+	const bProfileTierLevel = parseH265ProfileTierLevel(bCodec.parameters);
+
+	const invalidParameter =
+		getInvalidH265Parameter(aProfileTierLevel) ??
+		getInvalidH265Parameter(bProfileTierLevel);
+
+	if (invalidParameter) {
+		return invalidParameter;
+	}
+
+	if (aProfileTierLevel.profileId !== bProfileTierLevel.profileId) {
+		return 'profile-id';
+	}
+
+	if (aProfileTierLevel.tierFlag !== bProfileTierLevel.tierFlag) {
+		return 'tier-flag';
+	}
+
+	const aTxMode = aCodec.parameters!['tx-mode'] || 'SRST';
+	const bTxMode = bCodec.parameters!['tx-mode'] || 'SRST';
+
+	if (aTxMode !== bTxMode) {
+		return 'tx-mode';
+	}
+
+	return true;
+}
+
+
+function negotiateH265Parameters(
+	aCodec: DeepReadonly<AnyRtpCodec>,
+	bCodec: DeepReadonly<AnyRtpCodec>
+): Record<string, unknown> {
+	const parameters: Record<string, unknown> = { ...aCodec.parameters };
+
+	// Profile and tier must be the same, so just lower the level if the other
+	// codec explicitly sets a lower one (otherwise it doesn't restrict it).
+	if (bCodec.parameters?.['level-id'] === undefined) {
+		return parameters;
+	}
+
+	const { levelId: aLevelId } = parseH265ProfileTierLevel(aCodec.parameters);
+	const { levelId: bLevelId } = parseH265ProfileTierLevel(bCodec.parameters);
+
+	if (bLevelId < aLevelId) {
+		parameters['level-id'] = bLevelId;
+	}
+
+	return parameters;
+}
+
+
+/**
+ * Parse the H265 profile, tier and level of the given codec parameters as per
+ * RFC 7798, filling the default values (Main profile, Main tier and level 3.1)
+ * of missing ones.
+ */
+function parseH265ProfileTierLevel(
+	parameters: DeepReadonly<Record<string, unknown>> = {}
+): { profileId: number; tierFlag: number; levelId: number } {
+	return {
+		profileId: Number(parameters['profile-id'] ?? 1),
+		tierFlag: Number(parameters['tier-flag'] ?? 0),
+		levelId: Number(parameters['level-id'] ?? 93),
+	};
+}
+
+
+/**
+ * Get the name of the invalid parameter of the given H265 profile, tier and
+ * level, if any.
+ */
+function getInvalidH265Parameter({
+	profileId,
+	tierFlag,
+	levelId,
+}: {
+	profileId: number;
+	tierFlag: number;
+	levelId: number;
+}): string | undefined {
+	if (!Number.isInteger(profileId) || profileId < 1 || profileId > 11) {
+		return 'profile-id';
+	}
+
+	if (tierFlag !== 0 && tierFlag !== 1) {
+		return 'tier-flag';
+	}
+
+	if (!H265LevelIds.includes(levelId)) {
+		return 'level-id';
+	}
+
+	// High tier is just defined for level 4 and above.
+	if (tierFlag === 1 && levelId < 120) {
+		return 'level-id';
+	}
+
+	return undefined;
+}
+
+
+function matchAv1(
+	aCodec: DeepReadonly<AnyRtpCodec>,
+	bCodec: DeepReadonly<AnyRtpCodec>,
+	{ strict }: { strict: boolean }
+): boolean | string {
+	if (!strict) {
+		return true;
+	}
+
+	const aProfileTierLevel = parseAv1ProfileTierLevel(aCodec.parameters);
+	const bProfileTierLevel = parseAv1ProfileTierLevel(bCodec.parameters);
+
+	const invalidParameter =
+		getInvalidAv1Parameter(aProfileTierLevel) ??
+		getInvalidAv1Parameter(bProfileTierLevel);
+
+	if (invalidParameter) {
+		return invalidParameter;
+	}
+
+	if (aProfileTierLevel.profile !== bProfileTierLevel.profile) {
+		return 'profile';
+	}
+
+	if (aProfileTierLevel.tier !== bProfileTierLevel.tier) {
+		return 'tier';
+	}
+
+	return true;
+}
+
+
+function negotiateAv1Parameters(
+	aCodec: DeepReadonly<AnyRtpCodec>,
+	bCodec: DeepReadonly<AnyRtpCodec>
+): Record<string, unknown> {
+	const parameters: Record<string, unknown> = { ...aCodec.parameters };
+
+	// Profile and tier must be the same, so just lower the level if the other
+	// codec explicitly sets a lower one (otherwise it doesn't restrict it).
+	if (bCodec.parameters?.['level-idx'] === undefined) {
+		return parameters;
+	}
+
+	const { levelIdx: aLevelIdx } = parseAv1ProfileTierLevel(aCodec.parameters);
+	const { levelIdx: bLevelIdx } = parseAv1ProfileTierLevel(bCodec.parameters);
+
+	if (bLevelIdx < aLevelIdx) {
+		parameters['level-idx'] = bLevelIdx;
+	}
+
+	return parameters;
+}
+
+
+/**
+ * Parse the AV1 profile, tier and level of the given codec parameters as per
+ * the AV1 RTP payload format, filling the default values (Main profile, Main
+ * tier and level 3.1) of missing ones.
+ */
+function parseAv1ProfileTierLevel(
+	parameters: DeepReadonly<Record<string, unknown>> = {}
+): { profile: number; tier: number; levelIdx: number } {
+	return {
+		profile: Number(parameters['profile'] ?? 0),
+		tier: Number(parameters['tier'] ?? 0),
+		levelIdx: Number(parameters['level-idx'] ?? 5),
+	};
+}
+
+
+/**
+ * Get the name of the invalid parameter of the given AV1 profile, tier and
+ * level, if any.
+ */
+function getInvalidAv1Parameter({
+	profile,
+	tier,
+	levelIdx,
+}: {
+	profile: number;
+	tier: number;
+	levelIdx: number;
+}): string | undefined {
+	if (profile !== 0 && profile !== 1 && profile !== 2) {
+		return 'profile';
+	}
+
+	if (tier !== 0 && tier !== 1) {
+		return 'tier';
+	}
+
+	if (!Number.isInteger(levelIdx) || levelIdx < 0 || levelIdx > 31) {
+		return 'level-idx';
+	}
+
+	return undefined;
+}
+
+
+function matchVp9(
+	aCodec: DeepReadonly<AnyRtpCodec>,
+	bCodec: DeepReadonly<AnyRtpCodec>,
+	{ strict }: { strict: boolean }
+): boolean | string {
+	if (!strict) {
+		return true;
+	}
+
+	const aProfileId = aCodec.parameters!['profile-id'] || 0;
+	const bProfileId = bCodec.parameters!['profile-id'] || 0;
+
+	if (aProfileId !== bProfileId) {
+		return 'profile-id';
+	}
+
+	return true;
+}
+
+
+/**
+ * Validates the given RTP header extensions of the registration of the given
+ * MIME type against the supported ones, the ones of other registrations and
+ * themselves.
+ * It throws if one of them has the same kind and preferredId than another one
+ * with a different uri.
+ */
+function validateRegisteredHeaderExtensions(
+	headerExtensions: RtpHeaderExtension[],
+	mimeType: string
+): void {
+	const otherHeaderExtensions = [
+		...supportedRtpCapabilities.headerExtensions!,
+	];
+
+	for (const [key, registration] of registrations) {
+		// Skip the registration being replaced.
+		if (key !== mimeType.toLowerCase()) {
+			otherHeaderExtensions.push(...(registration.headerExtensions ?? []));
+		}
+	}
+
+	for (const [idx, ext] of headerExtensions.entries()) {
+		const duplicatedExt = otherHeaderExtensions.find(
+			otherExt =>
+				otherExt.kind === ext.kind &&
+				otherExt.preferredId === ext.preferredId &&
+				otherExt.uri !== ext.uri
+		);
+
+		if (duplicatedExt) {
+			throw new ValidationError(
+				`duplicated ext.preferredId [uri:${duplicatedExt.uri}]`,
+				{
+					code: 'DUPLICATED_VALUE',
+					path: joinPath(
+						joinPath('registration.headerExtensions', idx),
+						'preferredId'
+					),
+					value: ext.preferredId,
+					expected: 'unique header extension id',
+				}
+			);
+		}
+
+		otherHeaderExtensions.push(ext);
+	}
+}
+
+
+// Default registrations of the supported codecs needing special checks.
+registerCodec('audio/multiopus', { match: matchMultiopus });
+registerCodec('video/H264', {
+	match: matchH264,
+	negotiateParameters: negotiateH264Parameters,
+});
+registerCodec('video/H265', {
+	match: matchH265,
+	negotiateParameters: negotiateH265Parameters,
+});
+registerCodec('video/AV1', {
+	match: matchAv1,
+	negotiateParameters: negotiateAv1Parameters,
+});
+registerCodec('video/VP9', { match: matchVp9 });
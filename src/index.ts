@@ -0,0 +1,21 @@
+// Extended version of the ORTC helpers of the generated ./ortc module, that
+// must be kept as the pure upstream output.
+
+export {
+	validateRtpCapabilities,
+	validateRtpParameters,
+	normalizeRtpCapabilities,
+	normalizeRtpParameters,
+	normalizeRtpCodecCapability,
+	normalizeRtcpFeedback,
+	normalizeRtpHeaderExtension,
+	validateSctpStreamParameters,
+	validateSctpCapabilities,
+	validateRtpCodecParameters,
+	validateRtpHeaderExtensionParameters,
+	validateRtpEncodingParameters,
+	validateRtcpParameters,
+	validateSctpParameters,
+} from './validation';
+
+export * from './negotiation';
@@ -0,0 +1,2556 @@
+import { supportedRtpCapabilities } from './ortcSupportedRtpCapabilities';
+
+import { parseScalabilityMode } from '@mafalda-sfu/scalabilitymodesutils';
+
+import {
+	parseW3cScalabilityMode,
+	stringifyScalabilityMode,
+} from './scalabilityModes';
+
+import type {
+	RtpCapabilities,
+	RouterRtpCapabilities,
+	MediaKind,
+	RtpCodecCapability,
+	RouterRtpCodecCapability,
+	RtpHeaderExtension,
+	RtpParameters,
+	RtpCodecParameters,
+	RtcpFeedback,
+	RtpEncodingParameters,
+	RtpHeaderExtensionParameters,
+} from './ortcRtpParametersTypes';
+
+import type { SctpStreamParameters } from './sctpParametersTypes';
+
+import type { OrtcTracer } from './ortcTraceTypes';
+
+import type { SctpStreamIdAllocator } from './SctpStreamIdAllocator';
+
+import { SsrcAllocator } from './SsrcAllocator';
+
+import { PayloadTypeAllocator } from './PayloadTypeAllocator';
+import type { PayloadTypeAllocatorOptions } from './PayloadTypeAllocator';
+
+import {
+	getCodecMismatch,
+	getNegotiatedCodecParameters,
+	getRedPrimaryPayloadTypes,
+	getRegisteredCodecs,
+	getRegisteredHeaderExtensions,
+	isFecCodec,
+	isFlexfecCodec,
+	isMediaCodec,
+	isRedCodec,
+	isRtxCodec,
+	matchCodecs,
+} from './codecRegistry';
+
+import {
+	RtpPriorities,
+	normalizeRtpCapabilities,
+	normalizeRtpCodecCapability,
+	normalizeRtpParameters,
+	validateRtpCapabilities,
+	validateRtpParameters,
+	validateSctpStreamParameters,
+} from './validation';
+
+import * as utils from './utils';
+import { joinPath } from './ortcUtils';
+import type { DeepReadonly, RandomNumberGenerator } from './ortcUtils';
+
+import { UnsupportedError, ValidationError } from './ortcErrors';
+
+
+// RTP header extension and RTCP feedback of each BWE mechanism.
+const BweMechanisms = {
+	'transport-cc': {
+		uri: 'http://www.ietf.org/id/draft-holmer-rmcat-transport-wide-cc-extensions-01',
+		headerExtensionName: 'transport-cc',
+		rtcpFeedbackType: 'transport-cc',
+	},
+	remb: {
+		uri: 'http://www.webrtc.org/experiments/rtp-hdrext/abs-send-time',
+		headerExtensionName: 'abs-send-time',
+		rtcpFeedbackType: 'goog-remb',
+	},
+} as const;
+
+
+
+// BWE modes in the default order of preference.
+const DefaultBweModes: BweMode[] = ['transport-cc', 'remb', 'none'];
+
+
+export type RtpCodecsEncodingsMapping = {
+	codecs: {
+		payloadType: number;
+		mappedPayloadType: number;
+	}[];
+	encodings: {
+		ssrc?: number;
+		rid?: string;
+		scalabilityMode?: string;
+		rtxSsrc?: number;
+		fecSsrc?: number;
+		mappedSsrc: number;
+		mappedFecSsrc?: number;
+		mappedCodecPayloadType?: number;
+	}[];
+};
+
+
+/**
+ * Bandwidth estimation mechanism of a Consumer.
+ */
+export type BweMode = 'transport-cc' | 'remb' | 'none';
+
+
+export type ConsumerRtpParametersOptions = {
+	/**
+	 * Consumable RTP parameters of the Producer.
+	 */
+	consumableRtpParameters: DeepReadonly<RtpParameters>;
+
+	/**
+	 * RTP capabilities of the remote endpoint.
+	 */
+	remoteRtpCapabilities: DeepReadonly<RtpCapabilities>;
+
+	/**
+	 * Whether it's a pipe Consumer, that gets all the consumable encodings. The
+	 * layer restriction options are ignored for them.
+	 */
+	pipe: boolean;
+
+	/**
+	 * Whether to keep RTX codecs and NACK feedback.
+	 */
+	enableRtx: boolean;
+
+	/**
+	 * Match header extensions by URI and give them the remote preferred ids,
+	 * instead of just keeping the ones that the remote RTP capabilities have
+	 * with the same id. It throws if two header extensions would get the same
+	 * id. Default false.
+	 */
+	remapHeaderExtensionIds?: boolean;
+
+	/**
+	 * Bandwidth estimation mode, or ordered list of preferred ones, to use the
+	 * first one supported by the remote endpoint. The header extensions of the
+	 * other mechanisms are removed too. It throws if none of them is supported.
+	 * Default Transport-CC if supported by the remote endpoint, REMB otherwise.
+	 */
+	bwe?: BweMode | DeepReadonly<BweMode[]>;
+
+	/**
+	 * Order of the codecs: 'remote' to use the one of the remote RTP
+	 * capabilities, or a list of MIME types (such as ['video/H264',
+	 * 'video/VP9']) to put those codecs first in that order. Default the order
+	 * of the consumable codecs.
+	 */
+	codecPreference?: 'remote' | DeepReadonly<string[]>;
+
+	/**
+	 * Remove the media codecs not in the codecPreference list. Default false.
+	 */
+	onlyPreferredCodecs?: boolean;
+
+	/**
+	 * Highest simulcast encoding or SVC spatial layer to use.
+	 */
+	maxSpatialLayer?: number;
+
+	/**
+	 * Highest temporal layer to use.
+	 */
+	maxTemporalLayer?: number;
+
+	/**
+	 * Random number generator of the default ssrcAllocator (such as
+	 * createSeededRandomNumberGenerator() for reproducible output).
+	 */
+	generateRandomNumber?: RandomNumberGenerator;
+
+	/**
+	 * Allocator of the Consumer SSRCs, so they must be released there (with
+	 * releaseConsumerSsrcs()) once the Consumer is closed.
+	 */
+	ssrcAllocator?: SsrcAllocator;
+
+	/**
+	 * Tracer to report every removed codec, RTCP feedback and header extension,
+	 * and the selected bandwidth estimation mode.
+	 */
+	tracer?: OrtcTracer;
+};
+
+
+export type RtpCapabilitiesIntersection = {
+	/**
+	 * Codecs and header extensions supported by all the given RTP capabilities,
+	 * with the payload types and ids of the first ones.
+	 */
+	rtpCapabilities: RtpCapabilities;
+
+	/**
+	 * Media codecs of any of the given RTP capabilities that each one of them
+	 * lacks, in the same order as given.
+	 */
+	missingCodecs: RtpCodecCapability[][];
+};
+
+
+export type ConsumeCodecExplanation = {
+	/**
+	 * Consumable codec.
+	 */
+	codec: RtpCodecParameters;
+
+	/**
+	 * Whether the codec is kept in the Consumer RTP parameters.
+	 */
+	supported: boolean;
+
+	/**
+	 * Remote codec matching the consumable one or, if none, the nearest one.
+	 */
+	remoteCodec?: RtpCodecCapability;
+
+	/**
+	 * Field of the nearest remote codec that doesn't match (such as 'clockRate'
+	 * or 'parameters.profile-id'). It's 'mimeType' if no remote codec has the
+	 * same MIME type.
+	 */
+	mismatchedField?: string;
+
+	/**
+	 * Why the codec is not kept in the Consumer RTP parameters.
+	 */
+	reason?: string;
+};
+
+
+export type ConsumeExplanation = {
+	/**
+	 * Whether the remote endpoint can consume.
+	 */
+	canConsume: boolean;
+
+	/**
+	 * Explanation of every consumable codec.
+	 */
+	codecs: ConsumeCodecExplanation[];
+
+	/**
+	 * Consumable header extensions not kept in the Consumer RTP parameters.
+	 */
+	droppedHeaderExtensions: {
+		headerExtension: RtpHeaderExtensionParameters;
+		reason: string;
+	}[];
+
+	/**
+	 * RTCP feedback of the kept codecs not kept in the Consumer RTP parameters.
+	 */
+	droppedRtcpFeedback: {
+		payloadType: number;
+		rtcpFeedback: RtcpFeedback;
+		reason: string;
+	}[];
+};
+
+/**
+ * Generate RTP capabilities for the Router based on the given media codecs and
+ * mediasoup supported RTP capabilities.
+ *
+ * Payload types of codecs without a preferred one are allocated on each call
+ * as set by the given payload type options if any (to use custom or additional
+ * dynamic payload types), or from the 96 to 127 range otherwise. Each added
+ * codec is reported to the given tracer if any.
+ */
+export function generateRouterRtpCapabilities(
+	mediaCodecs: DeepReadonly<RouterRtpCodecCapability[]> = [],
+	{
+		tracer,
+		...payloadTypeAllocatorOptions
+	}: PayloadTypeAllocatorOptions & { tracer?: OrtcTracer } = {}
+): RtpCapabilities {
+	// This may throw.
+	const payloadTypeAllocator = new PayloadTypeAllocator(
+		payloadTypeAllocatorOptions
+	);
+
+	// Normalize supported RTP capabilities.
+	validateRtpCapabilities(supportedRtpCapabilities);
+
+	if (!Array.isArray(mediaCodecs)) {
+		throw new ValidationError('mediaCodecs must be an Array', {
+			code: 'INVALID_TYPE',
+			path: 'mediaCodecs',
+			value: mediaCodecs,
+			expected: 'array',
+		});
+	}
+
+	// This may throw.
+	const clonedSupportedRtpCapabilities = getAvailableRtpCapabilities();
+	const caps: RtpCapabilities = {
+		codecs: [],
+		headerExtensions: clonedSupportedRtpCapabilities.headerExtensions,
+	};
+
+	for (const [idx, readonlyMediaCodec] of mediaCodecs.entries()) {
+		const path = joinPath('mediaCodecs', idx);
+
+		// This may throw.
+		const mediaCodec = normalizeRtpCodecCapability<RouterRtpCodecCapability>(
+			readonlyMediaCodec,
+			path
+		);
+
+		const matchedSupportedCodec = clonedSupportedRtpCapabilities.codecs!.find(
+			supportedCodec =>
+				matchCodecs(mediaCodec, supportedCodec, { strict: false })
+		);
+
+		if (!matchedSupportedCodec) {
+			throw new UnsupportedError(
+				`media codec not supported [mimeType:${mediaCodec.mimeType}]`,
+				{ mimeType: mediaCodec.mimeType, clockRate: mediaCodec.clockRate }
+			);
+		}
+
+		// Clone the supported codec.
+		const codec = utils.clone<RouterRtpCodecCapability>(matchedSupportedCodec);
+
+		// Whether the pt is taken from the allocator.
+		let allocated = false;
+
+		// If the given media codec has preferredPayloadType, keep it.
+		if (typeof mediaCodec.preferredPayloadType === 'number') {
+			codec.preferredPayloadType = mediaCodec.preferredPayloadType;
+
+			// Reject payload types conflicting with RTCP packet types (RFC 5761).
+			if (
+				codec.preferredPayloadType >= 64 &&
+				codec.preferredPayloadType <= 95
+			) {
+				throw new ValidationError('payload type conflicts with RTCP', {
+					code: 'INVALID_VALUE',
+					path: joinPath(path, 'preferredPayloadType'),
+					value: codec.preferredPayloadType,
+					expected: 'payload type out of the 64 to 95 range',
+				});
+			}
+
+			// Also remove the pt from the available dynamic values.
+			payloadTypeAllocator.reserve(codec.preferredPayloadType);
+		}
+		// Otherwise if the supported codec has preferredPayloadType, use it.
+		else if (typeof codec.preferredPayloadType === 'number') {
+			// Also remove the pt in case it's one of the available dynamic values.
+			payloadTypeAllocator.reserve(codec.preferredPayloadType);
+		}
+		// Otherwise choose a dynamic one.
+		else {
+			// Take the first available pt. This may throw.
+			codec.preferredPayloadType = payloadTypeAllocator.allocate();
+			allocated = true;
+		}
+
+		// Ensure there is not duplicated preferredPayloadType values.
+		if (
+			caps.codecs!.some(
+				c => c.preferredPayloadType === codec.preferredPayloadType
+			)
+		) {
+			throw new ValidationError('duplicated codec.preferredPayloadType', {
+				code: 'DUPLICATED_VALUE',
+				path: joinPath(path, 'preferredPayloadType'),
+				value: codec.preferredPayloadType,
+				expected: 'unique payload type',
+			});
+		}
+
+		// Merge the media codec parameters.
+		codec.parameters = { ...codec.parameters, ...mediaCodec.parameters };
+
+		// Append to the codec list.
+		caps.codecs!.push(codec as RtpCodecCapability);
+
+		tracer?.({
+			type: 'routerCodecAdded',
+			mimeType: codec.mimeType,
+			payloadType: codec.preferredPayloadType,
+			allocated,
+		});
+
+		// Add a RTX video codec if video (but not for FEC ones).
+		if (codec.kind === 'video' && !isFecCodec(codec)) {
+			// Take the first available pt. This may throw.
+			const pt = payloadTypeAllocator.allocate();
+
+			const rtxCodec: RtpCodecCapability = {
+				kind: codec.kind,
+				mimeType: `${codec.kind}/rtx`,
+				preferredPayloadType: pt,
+				clockRate: codec.clockRate,
+				parameters: {
+					apt: codec.preferredPayloadType,
+				},
+				rtcpFeedback: [],
+			};
+
+			// Append to the codec list.
+			caps.codecs!.push(rtxCodec);
+
+			tracer?.({
+				type: 'routerCodecAdded',
+				mimeType: rtxCodec.mimeType,
+				payloadType: pt,
+				allocated: true,
+			});
+		}
+	}
+
+	// Point RED codecs with no given primary codecs to the first media codec
+	// with the same clock rate and channels.
+	for (const codec of caps.codecs!) {
+		if (!isRedCodec(codec) || getRedPrimaryPayloadTypes(codec).length > 0) {
+			continue;
+		}
+
+		const primaryCodec = caps.codecs!.find(
+			mediaCodec =>
+				isMediaCodec(mediaCodec) &&
+				mediaCodec.kind === codec.kind &&
+				mediaCodec.clockRate === codec.clockRate &&
+				mediaCodec.channels === codec.channels
+		);
+
+		if (!primaryCodec) {
+			throw new UnsupportedError(
+				`no primary media codec for RED codec [mimeType:${codec.mimeType}]`,
+				{ mimeType: codec.mimeType, clockRate: codec.clockRate }
+			);
+		}
+
+		const pt = primaryCodec.preferredPayloadType;
+
+		codec.parameters = { ...codec.parameters, '': `${pt}/${pt}` };
+	}
+
+	return caps;
+}
+
+
+/**
+ * Get a mapping of codec payloads and encodings of the given Producer RTP
+ * parameters as values expected by the Router.
+ *
+ * It modifies the given RTP parameters by adding missing fields with default
+ * values and negotiating their codec parameters with the Router (such as H264
+ * 'profile-level-id'). Use negotiateProducerRtpParameters() to avoid it.
+ *
+ * Mapped SSRCs are taken from the given ssrcAllocator if any, so they don't
+ * collide with other ones of the Router. Otherwise they come from the given
+ * generateRandomNumber function if any (such as
+ * createSeededRandomNumberGenerator() for reproducible output).
+ * Mapped codecs and encodings are reported to the given tracer if any.
+ *
+ * It may throw if invalid or non supported RTP parameters are given, including
+ * a first codec that is not a media one (such as RED) and inconsistent
+ * encodings (such as duplicated rids or SSRCs, or simulcast encodings without
+ * rid nor SSRC).
+ */
+export function getProducerRtpParametersMapping(
+	params: RtpParameters,
+	caps: RtpCapabilities,
+	{
+		generateRandomNumber = utils.generateRandomNumber,
+		ssrcAllocator = new SsrcAllocator({ generateRandomNumber }),
+		tracer,
+	}: {
+		generateRandomNumber?: RandomNumberGenerator;
+		ssrcAllocator?: SsrcAllocator;
+		tracer?: OrtcTracer;
+	} = {}
+): RtpCodecsEncodingsMapping {
+	// This may throw.
+	validateRtpParameters(params);
+
+	// This may throw.
+	validateProducerEncodings(params);
+
+	// Ensure the first codec is a media one (not RTX, RED nor FEC).
+	if (params.codecs.length > 0 && !isMediaCodec(params.codecs[0]!)) {
+		throw new ValidationError('first codec is not a media codec', {
+			code: 'INVALID_VALUE',
+			path: 'codecs[0].mimeType',
+			value: params.codecs[0]!.mimeType,
+			expected: 'media codec',
+		});
+	}
+
+	const rtpMapping: RtpCodecsEncodingsMapping = {
+		codecs: [],
+		encodings: [],
+	};
+
+	// Match parameters media codecs to capabilities media codecs.
+	const codecToCapCodec: Map<RtpCodecParameters, RtpCodecCapability> =
+		new Map();
+
+	for (const codec of params.codecs) {
+		if (isRtxCodec(codec)) {
+			continue;
+		}
+
+		// Search for the same media codec in capabilities.
+		const matchedCapCodec = caps.codecs!.find(capCodec =>
+			matchCodecs(codec, capCodec, { strict: true })
+		);
+
+		if (!matchedCapCodec) {
+			throw new UnsupportedError(
+				`unsupported codec [mimeType:${codec.mimeType}, payloadType:${codec.payloadType}]`,
+				{ mimeType: codec.mimeType, payloadType: codec.payloadType }
+			);
+		}
+
+		codec.parameters = getNegotiatedCodecParameters(codec, matchedCapCodec);
+
+		codecToCapCodec.set(codec, matchedCapCodec);
+	}
+
+	// Match parameters RTX codecs to capabilities RTX codecs.
+	for (const [idx, codec] of params.codecs.entries()) {
+		if (!isRtxCodec(codec)) {
+			continue;
+		}
+
+		// Search for the associated media codec.
+		const associatedMediaCodec = params.codecs.find(
+			mediaCodec => mediaCodec.payloadType === codec.parameters!['apt']
+		);
+
+		if (!associatedMediaCodec) {
+			throw new ValidationError(
+				`missing media codec found for RTX PT ${codec.payloadType}`,
+				{
+					code: 'INVALID_VALUE',
+					path: `codecs[${idx}].parameters.apt`,
+					value: codec.parameters!['apt'],
+					expected: 'payload type of a media codec',
+				}
+			);
+		}
+
+		const capMediaCodec = codecToCapCodec.get(associatedMediaCodec);
+
+		// Ensure that the capabilities media codec has a RTX codec.
+		const associatedCapRtxCodec = caps.codecs!.find(
+			capCodec =>
+				isRtxCodec(capCodec) &&
+				capCodec.parameters!['apt'] === capMediaCodec!.preferredPayloadType
+		);
+
+		if (!associatedCapRtxCodec) {
+			throw new UnsupportedError(
+				`no RTX codec for capability codec PT ${
+					capMediaCodec!.preferredPayloadType
+				}`,
+				{ mimeType: codec.mimeType, payloadType: codec.payloadType }
+			);
+		}
+
+		codecToCapCodec.set(codec, associatedCapRtxCodec);
+	}
+
+	// Ensure that RED codecs reference given media codecs.
+	for (const [idx, codec] of params.codecs.entries()) {
+		if (!isRedCodec(codec)) {
+			continue;
+		}
+
+		const primaryPayloadTypes = getRedPrimaryPayloadTypes(codec);
+
+		if (
+			primaryPayloadTypes.length === 0 ||
+			!primaryPayloadTypes.every(pt =>
+				params.codecs.some(
+					mediaCodec =>
+						isMediaCodec(mediaCodec) && mediaCodec.payloadType === pt
+				)
+			)
+		) {
+			throw new ValidationError(
+				`missing primary media codec found for RED PT ${codec.payloadType}`,
+				{
+					code: 'INVALID_VALUE',
+					path: `codecs[${idx}].parameters`,
+					value: codec.parameters![''],
+					expected: 'payload types of media codecs',
+				}
+			);
+		}
+	}
+
+	// Generate codecs mapping.
+	for (const [codec, capCodec] of codecToCapCodec) {
+		rtpMapping.codecs.push({
+			payloadType: codec.payloadType,
+			mappedPayloadType: capCodec.preferredPayloadType,
+		});
+
+		tracer?.({
+			type: 'codecMapped',
+			mimeType: codec.mimeType,
+			payloadType: codec.payloadType,
+			mappedPayloadType: capCodec.preferredPayloadType,
+		});
+	}
+
+	// Generate encodings mapping.
+	// This may throw.
+	const baseMappedSsrc = ssrcAllocator.allocate(params.encodings!.length);
+	let mappedSsrc = baseMappedSsrc;
+
+	for (const encoding of params.encodings!) {
+		const mappedEncoding: RtpCodecsEncodingsMapping['encodings'][number] = {
+			ssrc: encoding.ssrc,
+			rid: encoding.rid,
+			scalabilityMode: encoding.scalabilityMode,
+			rtxSsrc: encoding.rtx?.ssrc,
+			mappedSsrc: mappedSsrc++,
+		};
+
+		// Map the codec of the encoding, if given (mixed codec simulcast).
+		if (encoding.codecPayloadType !== undefined) {
+			const codec = params.codecs.find(
+				({ payloadType }) => payloadType === encoding.codecPayloadType
+			)!;
+
+			mappedEncoding.mappedCodecPayloadType =
+				codecToCapCodec.get(codec)!.preferredPayloadType;
+		}
+
+		// Map the flexfec SSRC of the encoding, if given.
+		if (encoding.fec) {
+			mappedEncoding.fecSsrc = encoding.fec.ssrc;
+
+			try {
+				// This may throw.
+				mappedEncoding.mappedFecSsrc = ssrcAllocator.allocate();
+			} catch (error) {
+				// Release the mapped SSRCs already taken, since the mapping will
+				// not be used.
+				ssrcAllocator.release(baseMappedSsrc, params.encodings!.length);
+
+				for (const { mappedFecSsrc } of rtpMapping.encodings) {
+					if (mappedFecSsrc !== undefined) {
+						ssrcAllocator.release(mappedFecSsrc);
+					}
+				}
+
+				throw error;
+			}
+		}
+
+		rtpMapping.encodings.push(mappedEncoding);
+
+		tracer?.({
+			type: 'encodingMapped',
+			ssrc: mappedEncoding.ssrc,
+			rid: mappedEncoding.rid,
+			mappedSsrc: mappedEncoding.mappedSsrc,
+		});
+	}
+
+	return rtpMapping;
+}
+
+
+/**
+ * Like getProducerRtpParametersMapping() but it doesn't modify the given RTP
+ * parameters. It returns a normalized deep copy of them with the codec
+ * parameters negotiated with the Router, along with the mapping.
+ *
+ * It may throw if invalid or non supported RTP parameters are given.
+ */
+export function negotiateProducerRtpParameters(
+	params: DeepReadonly<RtpParameters>,
+	caps: DeepReadonly<RtpCapabilities>,
+	options: {
+		generateRandomNumber?: RandomNumberGenerator;
+		ssrcAllocator?: SsrcAllocator;
+		tracer?: OrtcTracer;
+	} = {}
+): { rtpParameters: RtpParameters; rtpMapping: RtpCodecsEncodingsMapping } {
+	const rtpParameters = utils.clone(params) as RtpParameters;
+
+	// This may throw.
+	const rtpMapping = getProducerRtpParametersMapping(
+		rtpParameters,
+		caps as RtpCapabilities,
+		options
+	);
+
+	return { rtpParameters, rtpMapping };
+}
+
+
+/**
+ * Generate RTP parameters to be internally used by Consumers given the RTP
+ * parameters of a Producer and the RTP capabilities of the Router.
+ */
+export function getConsumableRtpParameters(
+	kind: string,
+	readonlyParams: DeepReadonly<RtpParameters>,
+	caps: DeepReadonly<RtpCapabilities>,
+	rtpMapping: DeepReadonly<RtpCodecsEncodingsMapping>,
+	{ tracer }: { tracer?: OrtcTracer } = {}
+): RtpParameters {
+	// This may throw.
+	const params = normalizeRtpParameters(readonlyParams);
+
+	const consumableParams: RtpParameters = {
+		codecs: [],
+		headerExtensions: [],
+		encodings: [],
+		rtcp: {},
+	};
+
+	for (const codec of params.codecs) {
+		if (isRtxCodec(codec)) {
+			continue;
+		}
+
+		const consumableCodecPt = rtpMapping.codecs.find(
+			entry => entry.payloadType === codec.payloadType
+		)!.mappedPayloadType;
+
+		const matchedCapCodec = caps.codecs!.find(
+			capCodec => capCodec.preferredPayloadType === consumableCodecPt
+		)!;
+
+		const consumableCodec: RtpCodecParameters = {
+			mimeType: matchedCapCodec.mimeType,
+			payloadType: matchedCapCodec.preferredPayloadType,
+			clockRate: matchedCapCodec.clockRate,
+			channels: matchedCapCodec.channels,
+			parameters: codec.parameters, // Keep the Producer codec parameters.
+			rtcpFeedback: utils.clone(matchedCapCodec.rtcpFeedback) as RtcpFeedback[],
+		};
+
+		// Point RED to the consumable payload types of its primary codecs.
+		if (isRedCodec(consumableCodec)) {
+			consumableCodec.parameters = {
+				...consumableCodec.parameters,
+				'': getRedPrimaryPayloadTypes(codec)
+					.map(
+						pt =>
+							rtpMapping.codecs.find(entry => entry.payloadType === pt)!
+								.mappedPayloadType
+					)
+					.join('/'),
+			};
+		}
+
+		consumableParams.codecs.push(consumableCodec);
+
+		const consumableCapRtxCodec = caps.codecs!.find(
+			capRtxCodec =>
+				isRtxCodec(capRtxCodec) &&
+				capRtxCodec.parameters!['apt'] === consumableCodec.payloadType
+		);
+
+		if (consumableCapRtxCodec) {
+			const consumableRtxCodec: RtpCodecParameters = {
+				mimeType: consumableCapRtxCodec.mimeType,
+				payloadType: consumableCapRtxCodec.preferredPayloadType,
+				clockRate: consumableCapRtxCodec.clockRate,
+				parameters: { ...consumableCapRtxCodec.parameters },
+				rtcpFeedback: utils.clone(
+					consumableCapRtxCodec.rtcpFeedback
+				) as RtcpFeedback[],
+			};
+
+			consumableParams.codecs.push(consumableRtxCodec);
+		}
+	}
+
+	for (const capExt of caps.headerExtensions!) {
+		if (capExt.kind !== kind) {
+			continue;
+		}
+
+		// Just take RTP header extension that can be used in Consumers.
+		if (capExt.direction !== 'sendrecv' && capExt.direction !== 'sendonly') {
+			tracer?.({
+				type: 'headerExtensionDropped',
+				uri: capExt.uri,
+				id: capExt.preferredId,
+				reason: 'not usable in Consumers',
+			});
+
+			continue;
+		}
+
+		const consumableExt = {
+			uri: capExt.uri,
+			id: capExt.preferredId,
+			encrypt: capExt.preferredEncrypt,
+			parameters: {},
+		};
+
+		consumableParams.headerExtensions!.push(consumableExt);
+	}
+
+	const consumableEncodings = params.encodings!;
+
+	for (let i = 0; i < consumableEncodings.length; ++i) {
+		const consumableEncoding = consumableEncodings[i]!;
+		const { mappedSsrc, mappedFecSsrc, mappedCodecPayloadType } =
+			rtpMapping.encodings[i]!;
+
+		// Remove useless fields.
+		delete consumableEncoding.rid;
+		delete consumableEncoding.rtx;
+		delete consumableEncoding.codecPayloadType;
+
+		// Set the mapped ssrc.
+		consumableEncoding.ssrc = mappedSsrc;
+
+		// Set the mapped flexfec ssrc, if any.
+		if (consumableEncoding.fec && mappedFecSsrc !== undefined) {
+			consumableEncoding.fec.ssrc = mappedFecSsrc;
+		} else {
+			delete consumableEncoding.fec;
+		}
+
+		// Set the mapped codec payload type, if any.
+		if (mappedCodecPayloadType !== undefined) {
+			consumableEncoding.codecPayloadType = mappedCodecPayloadType;
+		}
+
+		consumableParams.encodings!.push(consumableEncoding);
+	}
+
+	consumableParams.rtcp = {
+		cname: params.rtcp!.cname,
+		reducedSize: true,
+	};
+
+	return consumableParams;
+}
+
+
+/**
+ * Check whether the given RTP capabilities can consume the given Producer.
+ */
+export function canConsume(
+	consumableParams: DeepReadonly<RtpParameters>,
+	readonlyCaps: DeepReadonly<RtpCapabilities>,
+	{ tracer }: { tracer?: OrtcTracer } = {}
+): boolean {
+	// This may throw.
+	const caps = normalizeRtpCapabilities<RtpCapabilities>(readonlyCaps);
+
+	const matchingCodecs: DeepReadonly<RtpCodecParameters>[] = [];
+
+	for (const codec of consumableParams.codecs) {
+		const matchedCapCodec = caps.codecs!.find(capCodec =>
+			matchCodecs(capCodec, codec, { strict: true })
+		);
+
+		if (!matchedCapCodec) {
+			traceCodecDropped(codec, 'not supported by the remote endpoint', tracer);
+
+			continue;
+		}
+
+		tracer?.({
+			type: 'codecMatched',
+			mimeType: codec.mimeType,
+			payloadType: codec.payloadType,
+			remotePayloadType: matchedCapCodec.preferredPayloadType,
+		});
+
+		matchingCodecs.push(codec);
+	}
+
+	// Ignore RED codecs whose primary codecs don't match.
+	const usableCodecs = matchingCodecs.filter(codec => {
+		if (
+			!isRedCodec(codec) ||
+			getRedPrimaryPayloadTypes(codec).every(pt =>
+				matchingCodecs.some(mediaCodec => mediaCodec.payloadType === pt)
+			)
+		) {
+			return true;
+		}
+
+		traceCodecDropped(codec, 'primary media codecs not supported', tracer);
+
+		return false;
+	});
+
+	// Ensure there is at least one media codec.
+	if (usableCodecs.length === 0 || !isMediaCodec(usableCodecs[0]!)) {
+		return false;
+	}
+
+	return true;
+}
+
+
+/**
+ * Get the codecs and header extensions supported by all the given RTP
+ * capabilities (such as the ones of all the participants of a room), along
+ * with the codecs that each one of them lacks. Codecs are matched the same way
+ * as in canConsume() and their parameters are negotiated (such as H264
+ * 'profile-level-id'). Each removed codec, RTCP feedback entry and header
+ * extension is reported to the given tracer if any.
+ * It throws if any of the given RTP capabilities is invalid.
+ */
+export function intersectRtpCapabilities(
+	readonlyCapsList: DeepReadonly<RtpCapabilities>[],
+	{ tracer }: { tracer?: OrtcTracer } = {}
+): RtpCapabilitiesIntersection {
+	if (!Array.isArray(readonlyCapsList)) {
+		throw new ValidationError('capsList must be an Array', {
+			code: 'INVALID_TYPE',
+			path: 'capsList',
+			value: readonlyCapsList,
+			expected: 'array',
+		});
+	}
+
+	// This may throw.
+	const capsList = readonlyCapsList.map((readonlyCaps, idx) =>
+		normalizeRtpCapabilities<RtpCapabilities>(
+			readonlyCaps,
+			joinPath('caps', idx)
+		)
+	);
+
+	const rtpCapabilities: RtpCapabilities = {
+		codecs: [],
+		headerExtensions: [],
+	};
+	const missingCodecs: RtpCodecCapability[][] = capsList.map(() => []);
+
+	// Media codecs of all the given RTP capabilities, without duplicates and
+	// in order of preference of the first ones.
+	const candidateCodecs: RtpCodecCapability[] = [];
+
+	for (const caps of capsList) {
+		for (const codec of caps.codecs!) {
+			if (
+				isRtxCodec(codec) ||
+				candidateCodecs.some(candidateCodec =>
+					matchCodecs(candidateCodec, codec, { strict: true })
+				)
+			) {
+				continue;
+			}
+
+			candidateCodecs.push(codec);
+		}
+	}
+
+	for (const candidateCodec of candidateCodecs) {
+		const matchedCodecs = capsList.map(caps =>
+			caps.codecs!.find(
+				codec =>
+					!isRtxCodec(codec) &&
+					matchCodecs(codec, candidateCodec, { strict: true })
+			)
+		);
+
+		for (const [idx, matchedCodec] of matchedCodecs.entries()) {
+			if (!matchedCodec) {
+				missingCodecs[idx]!.push(utils.clone(candidateCodec));
+			}
+		}
+
+		if (matchedCodecs.some(matchedCodec => !matchedCodec)) {
+			traceIntersectionCodecDropped(
+				candidateCodec,
+				'not supported by all the RTP capabilities',
+				tracer
+			);
+
+			continue;
+		}
+
+		const [firstCodec, ...otherCodecs] =
+			matchedCodecs as RtpCodecCapability[];
+		const codec = utils.clone(firstCodec!);
+
+		for (const otherCodec of otherCodecs) {
+			codec.parameters = getNegotiatedCodecParameters(codec, otherCodec);
+			codec.rtcpFeedback = codec.rtcpFeedback!.filter(fb => {
+				if (
+					otherCodec.rtcpFeedback!.some(
+						otherFb =>
+							otherFb.type === fb.type && otherFb.parameter === fb.parameter
+					)
+				) {
+					return true;
+				}
+
+				tracer?.({
+					type: 'rtcpFeedbackDropped',
+					payloadType: codec.preferredPayloadType,
+					rtcpFeedback: utils.clone(fb),
+					reason: 'not supported by all the RTP capabilities',
+				});
+
+				return false;
+			});
+		}
+
+		rtpCapabilities.codecs!.push(codec);
+
+		// Add the RTX codec if all the RTP capabilities have it.
+		const rtxCodecs = capsList.map((caps, idx) =>
+			caps.codecs!.find(
+				rtxCodec =>
+					isRtxCodec(rtxCodec) &&
+					rtxCodec.parameters!['apt'] ===
+						matchedCodecs[idx]!.preferredPayloadType
+			)
+		);
+
+		if (rtxCodecs.every(rtxCodec => rtxCodec)) {
+			rtpCapabilities.codecs!.push(utils.clone(rtxCodecs[0]!));
+		} else if (rtxCodecs[0]) {
+			traceIntersectionCodecDropped(
+				rtxCodecs[0],
+				'not supported by all the RTP capabilities',
+				tracer
+			);
+		}
+	}
+
+	// Remove RED codecs whose primary codecs are not supported by all.
+	rtpCapabilities.codecs = rtpCapabilities.codecs!.filter(codec => {
+		if (
+			!isRedCodec(codec) ||
+			getRedPrimaryPayloadTypes(codec).every(pt =>
+				rtpCapabilities.codecs!.some(
+					mediaCodec => mediaCodec.preferredPayloadType === pt
+				)
+			)
+		) {
+			return true;
+		}
+
+		traceIntersectionCodecDropped(
+			codec,
+			'primary media codecs not supported',
+			tracer
+		);
+
+		return false;
+	});
+
+	for (const ext of capsList[0]?.headerExtensions ?? []) {
+		const supportedByAll = capsList.every(caps =>
+			caps.headerExtensions!.some(
+				otherExt => otherExt.kind === ext.kind && otherExt.uri === ext.uri
+			)
+		);
+
+		if (supportedByAll) {
+			rtpCapabilities.headerExtensions!.push(utils.clone(ext));
+		} else {
+			tracer?.({
+				type: 'headerExtensionDropped',
+				uri: ext.uri,
+				id: ext.preferredId,
+				reason: 'not supported by all the RTP capabilities',
+			});
+		}
+	}
+
+	return { rtpCapabilities, missingCodecs };
+}
+
+
+/**
+ * Generate RTP parameters for a specific Consumer.
+ *
+ * It reduces encodings to just one and takes into account given RTP
+ * capabilities to reduce codecs, codecs' RTCP feedback and header extensions,
+ * and also enables or disables RTX.
+ *
+ * The Consumer encoding just covers the selected simulcast encodings (up to
+ * the first one whose codec is not supported by the remote endpoint, with
+ * mixed codec simulcast) or SVC layers. Its scalabilityMode takes them into
+ * account and, with simulcast, the temporal layers common to all of them. It
+ * also gets their highest maxBitrate, maxFramerate, resolution (lowest
+ * scaleResolutionDownBy), priority and networkPriority, and it's only inactive
+ * if all of them are.
+ *
+ * It throws if the remote endpoint can't consume, if a simulcast encoding has
+ * more than one spatial layer, or if the SVC layers of a non W3C scalability
+ * mode are restricted.
+ */
+export function getConsumerRtpParameters({
+	consumableRtpParameters: readonlyConsumableRtpParameters,
+	remoteRtpCapabilities: readonlyRemoteRtpCapabilities,
+	pipe,
+	enableRtx,
+	remapHeaderExtensionIds = false,
+	bwe,
+	codecPreference,
+	onlyPreferredCodecs = false,
+	maxSpatialLayer,
+	maxTemporalLayer,
+	generateRandomNumber = utils.generateRandomNumber,
+	ssrcAllocator = new SsrcAllocator({ generateRandomNumber }),
+	tracer,
+}: ConsumerRtpParametersOptions): RtpParameters {
+	// Work on copies so given data is not modified.
+	const consumableRtpParameters = utils.clone(
+		readonlyConsumableRtpParameters
+	) as RtpParameters;
+
+	// This may throw.
+	const remoteRtpCapabilities = normalizeRtpCapabilities<RtpCapabilities>(
+		readonlyRemoteRtpCapabilities
+	);
+
+	// This may throw.
+	const bweModes = getBweModes(bwe);
+
+	// This may throw.
+	validateCodecPreference(codecPreference);
+
+	// This may throw.
+	validateLayers({ maxSpatialLayer, maxTemporalLayer });
+
+	const preferredMimeTypes = Array.isArray(codecPreference)
+		? codecPreference.map(mimeType => mimeType.toLowerCase())
+		: undefined;
+
+	const consumerParams: RtpParameters = {
+		codecs: [],
+		headerExtensions: [],
+		encodings: [],
+		rtcp: consumableRtpParameters.rtcp,
+	};
+
+	const consumableCodecs = consumableRtpParameters.codecs;
+
+	// Index of the remote codec matching each consumer codec.
+	const remoteCodecIndexes = new Map<RtpCodecParameters, number>();
+	let rtxSupported = false;
+
+	for (const codec of consumableCodecs) {
+		if (!enableRtx && isRtxCodec(codec)) {
+			traceCodecDropped(codec, 'RTX is disabled', tracer);
+
+			continue;
+		}
+
+		if (
+			onlyPreferredCodecs &&
+			preferredMimeTypes &&
+			isMediaCodec(codec) &&
+			!preferredMimeTypes.includes(codec.mimeType.toLowerCase())
+		) {
+			traceCodecDropped(codec, 'not a preferred codec', tracer);
+
+			continue;
+		}
+
+		const matchedCapCodecIdx = remoteRtpCapabilities.codecs!.findIndex(
+			capCodec => matchCodecs(capCodec, codec, { strict: true })
+		);
+		const matchedCapCodec = remoteRtpCapabilities.codecs![matchedCapCodecIdx];
+
+		if (!matchedCapCodec) {
+			traceCodecDropped(codec, 'not supported by the remote endpoint', tracer);
+
+			continue;
+		}
+
+		remoteCodecIndexes.set(codec, matchedCapCodecIdx);
+
+		tracer?.({
+			type: 'codecMatched',
+			mimeType: codec.mimeType,
+			payloadType: codec.payloadType,
+			remotePayloadType: matchedCapCodec.preferredPayloadType,
+		});
+
+		codec.rtcpFeedback = matchedCapCodec.rtcpFeedback!;
+
+		filterRtcpFeedback(
+			codec,
+			fb => enableRtx || fb.type !== 'nack' || Boolean(fb.parameter),
+			'RTX is disabled',
+			tracer
+		);
+
+		consumerParams.codecs.push(codec);
+	}
+
+	if (codecPreference === 'remote') {
+		consumerParams.codecs = sortCodecs(
+			consumerParams.codecs,
+			codec => remoteCodecIndexes.get(codec)!
+		);
+	} else if (preferredMimeTypes) {
+		consumerParams.codecs = sortCodecs(consumerParams.codecs, codec => {
+			const idx = preferredMimeTypes.indexOf(codec.mimeType.toLowerCase());
+
+			return idx === -1 ? preferredMimeTypes.length : idx;
+		});
+	}
+
+	// Must sanitize the list of matched codecs by removing useless RTX codecs.
+	for (let idx = consumerParams.codecs.length - 1; idx >= 0; --idx) {
+		const codec = consumerParams.codecs[idx]!;
+
+		if (isRtxCodec(codec)) {
+			// Search for the associated media codec.
+			const associatedMediaCodec = consumerParams.codecs.find(
+				mediaCodec => mediaCodec.payloadType === codec.parameters!['apt']
+			);
+
+			if (associatedMediaCodec) {
+				rtxSupported = true;
+			} else {
+				consumerParams.codecs.splice(idx, 1);
+
+				traceCodecDropped(
+					codec,
+					'associated media codec not supported',
+					tracer
+				);
+			}
+		} else if (isRedCodec(codec)) {
+			// Search for the primary media codecs.
+			const hasPrimaryCodecs = getRedPrimaryPayloadTypes(codec).every(pt =>
+				consumerParams.codecs.some(
+					mediaCodec =>
+						isMediaCodec(mediaCodec) && mediaCodec.payloadType === pt
+				)
+			);
+
+			if (!hasPrimaryCodecs) {
+				consumerParams.codecs.splice(idx, 1);
+
+				traceCodecDropped(
+					codec,
+					'primary media codecs not supported',
+					tracer
+				);
+			}
+		}
+	}
+
+	// Ensure there is at least one media codec.
+	if (
+		consumerParams.codecs.length === 0 ||
+		!isMediaCodec(consumerParams.codecs[0]!)
+	) {
+		throw new UnsupportedError('no compatible media codecs');
+	}
+
+	if (remapHeaderExtensionIds) {
+		const kind = consumerParams.codecs[0]!.mimeType.split('/')[0] as MediaKind;
+
+		// This may throw.
+		consumerParams.headerExtensions = remapHeaderExtensions(
+			consumableRtpParameters.headerExtensions!,
+			remoteRtpCapabilities.headerExtensions!,
+			kind,
+			tracer
+		);
+	} else {
+		consumerParams.headerExtensions =
+			consumableRtpParameters.headerExtensions!.filter(ext => {
+				const supported = remoteRtpCapabilities.headerExtensions!.some(
+					capExt => capExt.preferredId === ext.id && capExt.uri === ext.uri
+				);
+
+				if (!supported) {
+					tracer?.({
+						type: 'headerExtensionDropped',
+						uri: ext.uri,
+						id: ext.id,
+						reason: 'not supported by the remote endpoint',
+					});
+				}
+
+				return supported;
+			});
+	}
+
+	// Select the first BWE mode available in the order of preference. By
+	// default use Transport-CC if available, REMB otherwise.
+	const availableBweModes = (['transport-cc', 'remb'] as const).filter(
+		mode =>
+			consumerParams.headerExtensions!.some(
+				ext => ext.uri === BweMechanisms[mode].uri
+			)
+	);
+
+	const bweMode = bweModes.find(
+		mode =>
+			mode === 'none' || (availableBweModes as BweMode[]).includes(mode)
+	);
+
+	if (!bweMode) {
+		throw new UnsupportedError(
+			'BWE mode not supported by the remote endpoint ' +
+				`[bwe:${bweModes.join(',')}]`,
+			{ bwe: bweModes }
+		);
+	}
+
+	tracer?.({ type: 'bweSelected', mode: bweMode });
+
+	// Reduce codecs' RTCP feedback and, if a BWE mode is given, RTP extensions
+	// to the ones of the selected BWE mechanism.
+	for (const mode of ['transport-cc', 'remb'] as const) {
+		if (mode === bweMode) {
+			continue;
+		}
+
+		const { uri, headerExtensionName, rtcpFeedbackType } = BweMechanisms[mode];
+		let reason: string;
+
+		if (!availableBweModes.includes(mode)) {
+			reason = `missing ${headerExtensionName} header extension`;
+		} else if (bweMode === 'none') {
+			reason = 'BWE is disabled';
+		} else {
+			reason = `${bweMode} is used for bandwidth estimation`;
+		}
+
+		for (const codec of consumerParams.codecs) {
+			filterRtcpFeedback(
+				codec,
+				fb => fb.type !== rtcpFeedbackType,
+				reason,
+				tracer
+			);
+		}
+
+		if (bwe === undefined) {
+			continue;
+		}
+
+		consumerParams.headerExtensions = consumerParams.headerExtensions.filter(
+			ext => {
+				if (ext.uri !== uri) {
+					return true;
+				}
+
+				tracer?.({
+					type: 'headerExtensionDropped',
+					uri: ext.uri,
+					id: ext.id,
+					reason,
+				});
+
+				return false;
+			}
+		);
+	}
+
+	// flexfec is sent in a separate RTP stream.
+	const flexfecSupported = consumerParams.codecs.some(isFlexfecCodec);
+
+	if (!pipe) {
+		const simulcast = consumableRtpParameters.encodings!.length > 1;
+		const maxSpatialLayers =
+			maxSpatialLayer === undefined ? Infinity : maxSpatialLayer + 1;
+		const maxTemporalLayers =
+			maxTemporalLayer === undefined ? Infinity : maxTemporalLayer + 1;
+
+		// Just the leading simulcast encodings whose codec is supported by the
+		// remote endpoint can be used, since Consumers refer to simulcast
+		// encodings by their position.
+		const unsupportedIdx = consumableRtpParameters.encodings!.findIndex(
+			encoding =>
+				encoding.codecPayloadType !== undefined &&
+				!consumerParams.codecs.some(
+					codec => codec.payloadType === encoding.codecPayloadType
+				)
+		);
+
+		const encodings = consumableRtpParameters
+			.encodings!.slice(0, unsupportedIdx === -1 ? undefined : unsupportedIdx)
+			.slice(0, simulcast ? maxSpatialLayers : undefined);
+
+		if (encodings.length === 0) {
+			throw new UnsupportedError('no encodings with compatible codecs');
+		}
+
+		const encodingWithScalabilityMode = encodings.find(
+			encoding => encoding.scalabilityMode
+		);
+
+		let scalabilityMode = encodingWithScalabilityMode
+			? encodingWithScalabilityMode.scalabilityMode
+			: undefined;
+
+		// If there is simulast, mangle spatial layers in scalabilityMode. Each
+		// encoding must have a single spatial layer, and the Consumer gets the
+		// temporal layers available in all of them. Encodings without
+		// scalabilityMode inherit it from the other ones.
+		if (simulcast) {
+			// This may throw.
+			const temporalLayers = encodings
+				.filter(encoding => encoding.scalabilityMode)
+				.map(({ scalabilityMode: mode }) => {
+					const { spatialLayers, temporalLayers: encodingTemporalLayers } =
+						parseScalabilityMode(mode);
+
+					if (spatialLayers > 1) {
+						throw new UnsupportedError(
+							`simulcast encoding with spatial layers [scalabilityMode:${mode}]`,
+							{ scalabilityMode: mode }
+						);
+					}
+
+					return encodingTemporalLayers;
+				});
+
+			scalabilityMode = `L${encodings.length}T${Math.min(
+				temporalLayers.length > 0 ? Math.min(...temporalLayers) : 1,
+				maxTemporalLayers
+			)}`;
+		}
+		// Otherwise restrict SVC layers if requested, keeping the mode suffixes
+		// that still apply.
+		else if (
+			scalabilityMode &&
+			(maxSpatialLayer !== undefined || maxTemporalLayer !== undefined)
+		) {
+			// This may throw.
+			const mode = parseW3cScalabilityMode(scalabilityMode);
+
+			scalabilityMode = stringifyScalabilityMode({
+				...mode,
+				spatialLayers: Math.min(mode.spatialLayers, maxSpatialLayers),
+				temporalLayers: Math.min(mode.temporalLayers, maxTemporalLayers),
+			});
+		}
+
+		if (scalabilityMode !== encodingWithScalabilityMode?.scalabilityMode) {
+			tracer?.({
+				type: 'scalabilityModeRewritten',
+				scalabilityMode: encodingWithScalabilityMode?.scalabilityMode,
+				consumerScalabilityMode: scalabilityMode!,
+			});
+		}
+
+		const numSsrcs = 1 + Number(rtxSupported) + Number(flexfecSupported);
+		const consumerEncoding: RtpEncodingParameters = {
+			// This may throw.
+			ssrc: ssrcAllocator.allocate(numSsrcs),
+		};
+
+		if (rtxSupported) {
+			consumerEncoding.rtx = { ssrc: consumerEncoding.ssrc! + 1 };
+		}
+
+		if (flexfecSupported) {
+			consumerEncoding.fec = {
+				ssrc: consumerEncoding.ssrc! + numSsrcs - 1,
+				mechanism: 'flexfec-03',
+			};
+		}
+
+		// Set the codec of the selected encodings if it's the same for all of
+		// them (otherwise the Consumer gets all of them).
+		const codecPayloadTypes = new Set(
+			encodings.map(encoding => encoding.codecPayloadType)
+		);
+
+		if (
+			codecPayloadTypes.size === 1 &&
+			encodings[0]!.codecPayloadType !== undefined
+		) {
+			consumerEncoding.codecPayloadType = encodings[0]!.codecPayloadType;
+		}
+
+		if (scalabilityMode) {
+			consumerEncoding.scalabilityMode = scalabilityMode;
+		}
+
+		// Use the maximum maxBitrate in any selected encoding and honor it in the
+		// Consumer's encoding.
+		const maxEncodingMaxBitrate = encodings.reduce(
+			(maxBitrate, encoding) =>
+				encoding.maxBitrate && encoding.maxBitrate > maxBitrate
+					? encoding.maxBitrate
+					: maxBitrate,
+			0
+		);
+
+		if (maxEncodingMaxBitrate) {
+			consumerEncoding.maxBitrate = maxEncodingMaxBitrate;
+		}
+
+		// Same with maxFramerate.
+		const maxEncodingMaxFramerate = encodings.reduce(
+			(maxFramerate, encoding) =>
+				encoding.maxFramerate && encoding.maxFramerate > maxFramerate
+					? encoding.maxFramerate
+					: maxFramerate,
+			0
+		);
+
+		if (maxEncodingMaxFramerate) {
+			consumerEncoding.maxFramerate = maxEncodingMaxFramerate;
+		}
+
+		// The Consumer may get the highest resolution of any selected encoding.
+		const minScaleResolutionDownBy = Math.min(
+			...encodings.map(encoding => encoding.scaleResolutionDownBy ?? 1)
+		);
+
+		if (minScaleResolutionDownBy > 1) {
+			consumerEncoding.scaleResolutionDownBy = minScaleResolutionDownBy;
+		}
+
+		// The Consumer encoding is just inactive if all selected encodings are.
+		if (encodings.every(encoding => encoding.active === false)) {
+			consumerEncoding.active = false;
+		}
+
+		// Use the highest priorities of the selected encodings.
+		for (const key of ['priority', 'networkPriority'] as const) {
+			const priorityIdxs = encodings
+				.filter(encoding => encoding[key] !== undefined)
+				.map(encoding => RtpPriorities.indexOf(encoding[key]!));
+
+			if (priorityIdxs.length > 0) {
+				consumerEncoding[key] = RtpPriorities[Math.max(...priorityIdxs)];
+			}
+		}
+
+		if (encodings.some(encoding => encoding.adaptivePtime)) {
+			consumerEncoding.adaptivePtime = true;
+		}
+
+		// Set a single encoding for the Consumer.
+		consumerParams.encodings!.push(consumerEncoding);
+	} else {
+		const consumableEncodings = consumableRtpParameters.encodings ?? [];
+
+		// This may throw.
+		setPipeEncodingsSsrcs(consumableEncodings, {
+			rtx: rtxSupported,
+			fec: flexfecSupported,
+			ssrcAllocator,
+		});
+
+		consumerParams.encodings!.push(...consumableEncodings);
+	}
+
+	return consumerParams;
+}
+
+
+/**
+ * Explain the result of getConsumerRtpParameters() with the given options: for
+ * every consumable codec, the matching or nearest remote codec and the field
+ * that doesn't match, and every header extension and RTCP feedback entry that
+ * is dropped, with the reason. Those decisions are also reported to the given
+ * tracer if any.
+ * It throws if invalid RTP parameters or capabilities are given.
+ */
+export function explainConsume({
+	consumableRtpParameters,
+	remoteRtpCapabilities: readonlyRemoteRtpCapabilities,
+	enableRtx,
+	remapHeaderExtensionIds = false,
+	tracer,
+	...options
+}: Omit<
+	ConsumerRtpParametersOptions,
+	'pipe' | 'generateRandomNumber' | 'ssrcAllocator'
+>): ConsumeExplanation {
+	// This may throw.
+	const remoteRtpCapabilities = normalizeRtpCapabilities<RtpCapabilities>(
+		readonlyRemoteRtpCapabilities,
+		'remoteRtpCapabilities'
+	);
+
+	// Reasons of the codecs, RTCP feedback and header extensions removed by
+	// getConsumerRtpParameters().
+	const droppedCodecReasons = new Map<number, string>();
+	const droppedRtcpFeedbackReasons = new Map<string, string>();
+	const droppedHeaderExtensionReasons = new Map<string, string>();
+
+	let consumerParams: RtpParameters | undefined;
+	let unsupportedError: UnsupportedError | undefined;
+
+	try {
+		consumerParams = getConsumerRtpParameters({
+			...options,
+			consumableRtpParameters,
+			remoteRtpCapabilities,
+			pipe: false,
+			enableRtx,
+			remapHeaderExtensionIds,
+			ssrcAllocator: new SsrcAllocator(),
+			tracer(event) {
+				if (event.type === 'codecDropped') {
+					droppedCodecReasons.set(event.payloadType, event.reason);
+				} else if (event.type === 'rtcpFeedbackDropped') {
+					droppedRtcpFeedbackReasons.set(
+						getRtcpFeedbackKey(event.payloadType, event.rtcpFeedback),
+						event.reason
+					);
+				} else if (event.type === 'headerExtensionDropped') {
+					droppedHeaderExtensionReasons.set(event.uri, event.reason);
+				}
+
+				tracer?.(event);
+			},
+		});
+	} catch (error) {
+		if (!(error instanceof UnsupportedError)) {
+			throw error;
+		}
+
+		unsupportedError = error;
+	}
+
+	const explanation: ConsumeExplanation = {
+		canConsume: consumerParams !== undefined,
+		codecs: [],
+		droppedHeaderExtensions: [],
+		droppedRtcpFeedback: [],
+	};
+
+	for (const codec of consumableRtpParameters.codecs) {
+		const codecExplanation: ConsumeCodecExplanation = {
+			codec: utils.clone(codec) as RtpCodecParameters,
+			supported: false,
+		};
+
+		explanation.codecs.push(codecExplanation);
+
+		const consumerCodec = consumerParams?.codecs.find(
+			({ payloadType }) => payloadType === codec.payloadType
+		);
+
+		const remoteCodec = remoteRtpCapabilities.codecs!.find(capCodec =>
+			matchCodecs(capCodec, codec, { strict: true })
+		);
+
+		if (remoteCodec) {
+			codecExplanation.remoteCodec = utils.clone(remoteCodec);
+		} else {
+			// Take the remote codec whose mismatch is found later on.
+			const fields = ['mimeType', 'clockRate', 'channels'];
+			let nearestRank = 0;
+
+			codecExplanation.mismatchedField = 'mimeType';
+
+			for (const capCodec of remoteRtpCapabilities.codecs!) {
+				const mismatchedField = getCodecMismatch(capCodec, codec, {
+					strict: true,
+				})!;
+				const rank = fields.includes(mismatchedField)
+					? fields.indexOf(mismatchedField)
+					: fields.length;
+
+				if (rank > nearestRank) {
+					nearestRank = rank;
+					codecExplanation.remoteCodec = utils.clone(capCodec);
+					codecExplanation.mismatchedField = mismatchedField;
+				}
+			}
+		}
+
+		if (consumerCodec) {
+			codecExplanation.supported = true;
+
+			for (const fb of codec.rtcpFeedback ?? []) {
+				const kept = consumerCodec.rtcpFeedback!.some(
+					consumerFb =>
+						consumerFb.type === fb.type &&
+						(consumerFb.parameter ?? '') === (fb.parameter ?? '')
+				);
+
+				if (kept) {
+					continue;
+				}
+
+				explanation.droppedRtcpFeedback.push({
+					payloadType: codec.payloadType,
+					rtcpFeedback: utils.clone(fb) as RtcpFeedback,
+					reason:
+						droppedRtcpFeedbackReasons.get(
+							getRtcpFeedbackKey(codec.payloadType, fb)
+						) ?? 'not supported by the remote endpoint',
+				});
+			}
+		} else {
+			// Codecs not removed by getConsumerRtpParameters() were kept until it
+			// failed.
+			codecExplanation.reason =
+				droppedCodecReasons.get(codec.payloadType) ??
+				unsupportedError?.message;
+		}
+	}
+
+	const kind = consumableRtpParameters.codecs[0]?.mimeType.split('/')[0];
+
+	for (const ext of consumableRtpParameters.headerExtensions ?? []) {
+		const kept = consumerParams
+			? consumerParams.headerExtensions!.some(
+					consumerExt => consumerExt.uri === ext.uri
+				)
+			: remoteRtpCapabilities.headerExtensions!.some(
+					capExt =>
+						capExt.uri === ext.uri &&
+						(remapHeaderExtensionIds
+							? capExt.kind === kind
+							: capExt.preferredId === ext.id)
+				);
+
+		if (kept) {
+			continue;
+		}
+
+		const capExt = remoteRtpCapabilities.headerExtensions!.find(
+			({ uri }) => uri === ext.uri
+		);
+
+		explanation.droppedHeaderExtensions.push({
+			headerExtension: utils.clone(ext) as RtpHeaderExtensionParameters,
+			reason:
+				capExt && !remapHeaderExtensionIds && capExt.preferredId !== ext.id
+					? `remote endpoint uses a different id [id:${capExt.preferredId}]`
+					: droppedHeaderExtensionReasons.get(ext.uri) ??
+						'not supported by the remote endpoint',
+		});
+	}
+
+	return explanation;
+}
+
+
+/**
+ * Get a key identifying the given RTCP feedback of the codec with the given
+ * payload type.
+ */
+function getRtcpFeedbackKey(
+	payloadType: number,
+	{ type, parameter }: DeepReadonly<RtcpFeedback>
+): string {
+	return `${payloadType} ${type} ${parameter ?? ''}`;
+}
+
+
+/**
+ * Generate RTP parameters for a pipe Consumer.
+ *
+ * It keeps all original consumable encodings and removes support for BWE. If
+ * enableRtx is false, it also removes RTX and NACK support.
+ *
+ * SSRCs are taken from the given ssrcAllocator if any, so they must be
+ * released there (with releaseConsumerSsrcs()) once the Consumer is closed.
+ */
+export function getPipeConsumerRtpParameters({
+	consumableRtpParameters: readonlyConsumableRtpParameters,
+	enableRtx,
+	generateRandomNumber = utils.generateRandomNumber,
+	ssrcAllocator = new SsrcAllocator({ generateRandomNumber }),
+	tracer,
+}: {
+	consumableRtpParameters: DeepReadonly<RtpParameters>;
+	enableRtx: boolean;
+	generateRandomNumber?: RandomNumberGenerator;
+	ssrcAllocator?: SsrcAllocator;
+	tracer?: OrtcTracer;
+}): RtpParameters {
+	// Work on a copy so given data is not modified.
+	const consumableRtpParameters = utils.clone(
+		readonlyConsumableRtpParameters
+	) as RtpParameters;
+
+	const consumerParams: RtpParameters = {
+		codecs: [],
+		headerExtensions: [],
+		encodings: [],
+		rtcp: consumableRtpParameters.rtcp,
+	};
+
+	const consumableCodecs = consumableRtpParameters.codecs;
+
+	for (const codec of consumableCodecs) {
+		if (!enableRtx && isRtxCodec(codec)) {
+			traceCodecDropped(codec, 'RTX is disabled', tracer);
+
+			continue;
+		}
+
+		filterRtcpFeedback(
+			codec,
+			fb =>
+				(fb.type === 'nack' && fb.parameter === 'pli') ||
+				(fb.type === 'ccm' && fb.parameter === 'fir') ||
+				(enableRtx && fb.type === 'nack' && !fb.parameter),
+			'not used in pipe transports',
+			tracer
+		);
+
+		consumerParams.codecs.push(codec);
+	}
+
+	// Reduce RTP extensions by disabling transport MID and BWE related ones.
+	consumerParams.headerExtensions =
+		consumableRtpParameters.headerExtensions!.filter(ext => {
+			if (
+				ext.uri !== 'urn:ietf:params:rtp-hdrext:sdes:mid' &&
+				ext.uri !==
+					'http://www.webrtc.org/experiments/rtp-hdrext/abs-send-time' &&
+				ext.uri !==
+					'http://www.ietf.org/id/draft-holmer-rmcat-transport-wide-cc-extensions-01'
+			) {
+				return true;
+			}
+
+			tracer?.({
+				type: 'headerExtensionDropped',
+				uri: ext.uri,
+				id: ext.id,
+				reason: 'not used in pipe transports',
+			});
+
+			return false;
+		});
+
+	const consumableEncodings = consumableRtpParameters.encodings ?? [];
+
+	// This may throw.
+	setPipeEncodingsSsrcs(consumableEncodings, {
+		rtx: enableRtx,
+		// flexfec is sent in a separate RTP stream.
+		fec: consumerParams.codecs.some(isFlexfecCodec),
+		ssrcAllocator,
+	});
+
+	consumerParams.encodings!.push(...consumableEncodings);
+
+	return consumerParams;
+}
+
+
+/**
+ * Release in the given ssrcAllocator the SSRCs of a Consumer (media, RTX and
+ * flexfec ones of every encoding) once it's closed, given its RTP parameters
+ * as returned by getConsumerRtpParameters() or getPipeConsumerRtpParameters().
+ */
+export function releaseConsumerSsrcs(
+	rtpParameters: DeepReadonly<RtpParameters>,
+	ssrcAllocator: SsrcAllocator
+): void {
+	for (const { ssrc, rtx, fec } of rtpParameters.encodings ?? []) {
+		if (ssrc !== undefined) {
+			ssrcAllocator.release(ssrc);
+		}
+
+		if (rtx) {
+			ssrcAllocator.release(rtx.ssrc);
+		}
+
+		if (fec) {
+			ssrcAllocator.release(fec.ssrc);
+		}
+	}
+}
+
+
+/**
+ * Generate the RTP parameters of a pipe between two Routers whose RTP
+ * capabilities may differ (such as the ones of cascaded SFUs), given the
+ * consumable RTP parameters of the Producer in the local Router and the RTP
+ * capabilities of the remote Router.
+ *
+ * The returned RTP parameters are to be used by both the pipe Consumer in the
+ * local Router and the pipe Producer in the remote Router. They keep the local
+ * payload types, and header extensions get the remote ids (the ones not
+ * supported by the remote Router are removed). The returned mapping translates
+ * them to the remote Router, as getProducerRtpParametersMapping() does.
+ *
+ * SSRCs of the pipe are taken from the given ssrcAllocator of the local Router
+ * (and released there if it throws) and mapped SSRCs from the given
+ * remoteSsrcAllocator, if any.
+ *
+ * It throws if the remote Router doesn't support any of the codecs (or their
+ * RTX codecs if enableRtx is set).
+ */
+export function negotiatePipeRtpParameters({
+	consumableRtpParameters,
+	remoteRtpCapabilities: readonlyRemoteRtpCapabilities,
+	enableRtx,
+	generateRandomNumber = utils.generateRandomNumber,
+	ssrcAllocator = new SsrcAllocator({ generateRandomNumber }),
+	remoteSsrcAllocator = new SsrcAllocator({ generateRandomNumber }),
+	tracer,
+}: {
+	consumableRtpParameters: DeepReadonly<RtpParameters>;
+	remoteRtpCapabilities: DeepReadonly<RtpCapabilities>;
+	enableRtx: boolean;
+	generateRandomNumber?: RandomNumberGenerator;
+	ssrcAllocator?: SsrcAllocator;
+	remoteSsrcAllocator?: SsrcAllocator;
+	tracer?: OrtcTracer;
+}): { rtpParameters: RtpParameters; rtpMapping: RtpCodecsEncodingsMapping } {
+	// This may throw.
+	const remoteRtpCapabilities = normalizeRtpCapabilities<RtpCapabilities>(
+		readonlyRemoteRtpCapabilities,
+		'remoteRtpCapabilities'
+	);
+
+	// Ensure that the remote Router supports all the codecs before taking any
+	// SSRC.
+	for (const codec of consumableRtpParameters.codecs) {
+		if (isRtxCodec(codec)) {
+			continue;
+		}
+
+		const matchedCapCodec = remoteRtpCapabilities.codecs!.find(capCodec =>
+			matchCodecs(codec, capCodec, { strict: true })
+		);
+
+		if (!matchedCapCodec) {
+			throw new UnsupportedError(
+				'codec not supported by the remote Router ' +
+					`[mimeType:${codec.mimeType}, payloadType:${codec.payloadType}]`,
+				{ mimeType: codec.mimeType, payloadType: codec.payloadType }
+			);
+		}
+
+		const hasRtxCodec = consumableRtpParameters.codecs.some(
+			rtxCodec =>
+				isRtxCodec(rtxCodec) &&
+				rtxCodec.parameters!['apt'] === codec.payloadType
+		);
+
+		if (
+			enableRtx &&
+			hasRtxCodec &&
+			!remoteRtpCapabilities.codecs!.some(
+				capCodec =>
+					isRtxCodec(capCodec) &&
+					capCodec.parameters!['apt'] === matchedCapCodec.preferredPayloadType
+			)
+		) {
+			throw new UnsupportedError(
+				'RTX codec not supported by the remote Router ' +
+					`[mimeType:${codec.mimeType}, payloadType:${codec.payloadType}]`,
+				{ mimeType: codec.mimeType, payloadType: codec.payloadType }
+			);
+		}
+	}
+
+	// This may throw.
+	const rtpParameters = getPipeConsumerRtpParameters({
+		consumableRtpParameters,
+		enableRtx,
+		ssrcAllocator,
+		tracer,
+	});
+
+	const kind = rtpParameters.codecs[0]!.mimeType.split('/')[0] as MediaKind;
+
+	try {
+		// This may throw.
+		rtpParameters.headerExtensions = remapHeaderExtensions(
+			rtpParameters.headerExtensions!,
+			remoteRtpCapabilities.headerExtensions!,
+			kind,
+			tracer
+		);
+
+		// Negotiate on a copy, so the returned RTP parameters keep the local
+		// codec parameters. This may throw.
+		const { rtpMapping } = negotiateProducerRtpParameters(
+			rtpParameters,
+			remoteRtpCapabilities,
+			{ ssrcAllocator: remoteSsrcAllocator, tracer }
+		);
+
+		return { rtpParameters, rtpMapping };
+	} catch (error) {
+		// Release the SSRCs of the pipe, since it will not be created.
+		releaseConsumerSsrcs(rtpParameters, ssrcAllocator);
+
+		throw error;
+	}
+}
+
+
+/**
+ * Generate SCTP stream parameters for a DataConsumer given the SCTP stream
+ * parameters of its DataProducer.
+ *
+ * Given ordered, maxPacketLifeTime and maxRetransmits override the ones of the
+ * DataProducer, and a new SCTP stream id is taken from the given allocator of
+ * the consuming transport.
+ * It throws if both maxPacketLifeTime and maxRetransmits are given, or if any
+ * of them is given with ordered set to true.
+ */
+export function getDataConsumerSctpStreamParameters({
+	dataProducerSctpStreamParameters,
+	sctpStreamIdAllocator,
+	ordered,
+	maxPacketLifeTime,
+	maxRetransmits,
+	tracer,
+}: {
+	dataProducerSctpStreamParameters: DeepReadonly<SctpStreamParameters>;
+	sctpStreamIdAllocator: SctpStreamIdAllocator;
+	ordered?: boolean;
+	maxPacketLifeTime?: number;
+	maxRetransmits?: number;
+	tracer?: OrtcTracer;
+}): SctpStreamParameters {
+	if (maxPacketLifeTime !== undefined && maxRetransmits !== undefined) {
+		throw new ValidationError(
+			'cannot provide both maxPacketLifeTime and maxRetransmits',
+			{
+				code: 'CONFLICTING_FIELDS',
+				path: 'maxRetransmits',
+				value: maxRetransmits,
+				expected: 'unset if maxPacketLifeTime is given',
+			}
+		);
+	}
+
+	if (
+		ordered &&
+		(maxPacketLifeTime !== undefined || maxRetransmits !== undefined)
+	) {
+		throw new ValidationError(
+			'cannot be ordered with maxPacketLifeTime or maxRetransmits',
+			{
+				code: 'CONFLICTING_FIELDS',
+				path: 'ordered',
+				value: ordered,
+				expected: 'false if maxPacketLifeTime or maxRetransmits are given',
+			}
+		);
+	}
+
+	const sctpStreamParameters = utils.clone(
+		dataProducerSctpStreamParameters
+	) as SctpStreamParameters;
+
+	// Override if given.
+	if (ordered !== undefined) {
+		sctpStreamParameters.ordered = ordered;
+	}
+
+	if (maxPacketLifeTime !== undefined) {
+		sctpStreamParameters.maxPacketLifeTime = maxPacketLifeTime;
+		delete sctpStreamParameters.maxRetransmits;
+	}
+
+	if (maxRetransmits !== undefined) {
+		sctpStreamParameters.maxRetransmits = maxRetransmits;
+		delete sctpStreamParameters.maxPacketLifeTime;
+	}
+
+	// An explicitly ordered DataConsumer is reliable (so the partial reliability
+	// of the DataProducer is dropped), and partial reliability implies an
+	// unordered one unless ordered is explicitly given.
+	if (ordered) {
+		delete sctpStreamParameters.maxPacketLifeTime;
+		delete sctpStreamParameters.maxRetransmits;
+	} else if (
+		ordered === undefined &&
+		(sctpStreamParameters.maxPacketLifeTime ||
+			sctpStreamParameters.maxRetransmits)
+	) {
+		sctpStreamParameters.ordered = false;
+	}
+
+	// This may throw.
+	validateSctpStreamParameters(sctpStreamParameters);
+
+	// This may throw.
+	sctpStreamParameters.streamId = sctpStreamIdAllocator.allocate();
+
+	tracer?.({
+		type: 'sctpStreamIdAllocated',
+		streamId: sctpStreamParameters.streamId,
+	});
+
+	return sctpStreamParameters;
+}
+
+
+/**
+ * Validates that the encodings of the given Producer RTP parameters are
+ * consistent with each other and with the codecs and header extensions.
+ * It throws if invalid.
+ */
+function validateProducerEncodings(params: RtpParameters): void {
+	const encodings = params.encodings!;
+	const simulcast = encodings.length > 1;
+	const ridBased = encodings.some(encoding => encoding.rid !== undefined);
+	const rids = new Set<string>();
+	const ssrcs = new Set<number>();
+
+	for (const [idx, encoding] of encodings.entries()) {
+		const path = joinPath('encodings', idx);
+
+		if (simulcast && encoding.rid === undefined) {
+			if (ridBased) {
+				throw new ValidationError(
+					'mixed rid and ssrc based simulcast encodings',
+					{
+						code: 'CONFLICTING_FIELDS',
+						path: joinPath(path, 'rid'),
+						value: encoding.rid,
+						expected: 'rid as in the other encodings',
+					}
+				);
+			}
+
+			if (encoding.ssrc === undefined) {
+				throw new ValidationError('missing encoding.rid or encoding.ssrc', {
+					code: 'MISSING_FIELD',
+					path,
+					value: encoding,
+					expected: 'rid or ssrc in simulcast encodings',
+				});
+			}
+		}
+
+		if (encoding.rid !== undefined) {
+			if (rids.has(encoding.rid)) {
+				throw new ValidationError(
+					`duplicated encoding.rid [rid:${encoding.rid}]`,
+					{
+						code: 'DUPLICATED_VALUE',
+						path: joinPath(path, 'rid'),
+						value: encoding.rid,
+						expected: 'unique rid',
+					}
+				);
+			}
+
+			rids.add(encoding.rid);
+		}
+
+		// Media, RTX and FEC SSRCs must be unique.
+		for (const [key, ssrc] of [
+			['ssrc', encoding.ssrc],
+			['rtx.ssrc', encoding.rtx?.ssrc],
+			['fec.ssrc', encoding.fec?.ssrc],
+		] as const) {
+			if (ssrc === undefined) {
+				continue;
+			}
+
+			if (ssrcs.has(ssrc)) {
+				throw new ValidationError(`duplicated ssrc [ssrc:${ssrc}]`, {
+					code: 'DUPLICATED_VALUE',
+					path: joinPath(path, key),
+					value: ssrc,
+					expected: 'unique ssrc',
+				});
+			}
+
+			ssrcs.add(ssrc);
+		}
+	}
+
+	// RTX packets of rid based simulcast are identified by their repaired rid.
+	if (
+		simulcast &&
+		ridBased &&
+		params.codecs.some(isRtxCodec) &&
+		!params.headerExtensions!.some(
+			ext =>
+				ext.uri === 'urn:ietf:params:rtp-hdrext:sdes:repaired-rtp-stream-id'
+		)
+	) {
+		throw new ValidationError(
+			'missing repaired-rtp-stream-id header extension for rid based ' +
+				'simulcast with RTX',
+			{
+				code: 'MISSING_FIELD',
+				path: 'headerExtensions',
+				value: params.headerExtensions,
+				expected: 'urn:ietf:params:rtp-hdrext:sdes:repaired-rtp-stream-id',
+			}
+		);
+	}
+}
+
+
+/**
+ * Validates the codecPreference option of getConsumerRtpParameters().
+ * It throws if invalid.
+ */
+function validateCodecPreference(
+	codecPreference: 'remote' | DeepReadonly<string[]> | undefined
+): void {
+	if (codecPreference === undefined || codecPreference === 'remote') {
+		return;
+	}
+
+	if (!Array.isArray(codecPreference)) {
+		throw new ValidationError(
+			"codecPreference must be 'remote' or an Array of MIME types",
+			{
+				code: 'INVALID_TYPE',
+				path: 'codecPreference',
+				value: codecPreference,
+				expected: "'remote' or array",
+			}
+		);
+	}
+
+	for (const [idx, mimeType] of codecPreference.entries()) {
+		if (typeof mimeType !== 'string') {
+			throw new ValidationError('invalid MIME type', {
+				code: 'INVALID_TYPE',
+				path: joinPath('codecPreference', idx),
+				value: mimeType,
+				expected: 'string',
+			});
+		}
+	}
+}
+
+
+/**
+ * Get the given codecs with the media ones sorted by the given rank (lowest
+ * first, keeping their order otherwise), each one followed by its RTX codecs,
+ * and then RED and FEC codecs in their original order.
+ */
+function sortCodecs(
+	codecs: RtpCodecParameters[],
+	getRank: (codec: RtpCodecParameters) => number
+): RtpCodecParameters[] {
+	const mediaCodecs = codecs
+		.filter(isMediaCodec)
+		.sort((a, b) => getRank(a) - getRank(b));
+	const sortedCodecs: RtpCodecParameters[] = [];
+
+	for (const mediaCodec of mediaCodecs) {
+		sortedCodecs.push(
+			mediaCodec,
+			...codecs.filter(
+				codec =>
+					isRtxCodec(codec) &&
+					codec.parameters!['apt'] === mediaCodec.payloadType
+			)
+		);
+	}
+
+	for (const codec of codecs) {
+		if (!sortedCodecs.includes(codec)) {
+			sortedCodecs.push(codec);
+		}
+	}
+
+	return sortedCodecs;
+}
+
+
+/**
+ * Validates the layer restriction options of getConsumerRtpParameters().
+ * It throws if invalid.
+ */
+function validateLayers({
+	maxSpatialLayer,
+	maxTemporalLayer,
+}: {
+	maxSpatialLayer?: number;
+	maxTemporalLayer?: number;
+}): void {
+	for (const [key, layer] of [
+		['maxSpatialLayer', maxSpatialLayer],
+		['maxTemporalLayer', maxTemporalLayer],
+	] as const) {
+		if (
+			layer !== undefined &&
+			(typeof layer !== 'number' || !Number.isInteger(layer) || layer < 0)
+		) {
+			throw new ValidationError(`invalid ${key}`, {
+				code: 'INVALID_VALUE',
+				path: key,
+				value: layer,
+				expected: 'non negative integer',
+			});
+		}
+	}
+}
+
+
+/**
+ * Set the SSRCs of the given encodings of a pipe Consumer, taking a block of
+ * consecutive SSRCs for the media, RTX (if rtx is set) and flexfec (if fec is
+ * set) streams, and removing the RTX and flexfec ones not used.
+ * It throws if SSRCs cannot be allocated, after releasing the ones taken.
+ */
+function setPipeEncodingsSsrcs(
+	encodings: RtpEncodingParameters[],
+	{
+		rtx,
+		fec,
+		ssrcAllocator,
+	}: { rtx: boolean; fec: boolean; ssrcAllocator: SsrcAllocator }
+): void {
+	const baseSsrcs: number[] = [];
+
+	function allocateBlock(): number {
+		// This may throw.
+		const baseSsrc = ssrcAllocator.allocate(encodings.length);
+
+		baseSsrcs.push(baseSsrc);
+
+		return baseSsrc;
+	}
+
+	let baseSsrc: number;
+	let baseRtxSsrc: number | undefined;
+	let baseFecSsrc: number | undefined;
+
+	try {
+		baseSsrc = allocateBlock();
+		baseRtxSsrc = rtx ? allocateBlock() : undefined;
+		baseFecSsrc = fec ? allocateBlock() : undefined;
+	} catch (error) {
+		// Release the blocks already taken, since the encodings will not use
+		// them.
+		for (const ssrc of baseSsrcs) {
+			ssrcAllocator.release(ssrc, encodings.length);
+		}
+
+		throw error;
+	}
+
+	for (const [idx, encoding] of encodings.entries()) {
+		encoding.ssrc = baseSsrc + idx;
+
+		if (baseRtxSsrc !== undefined) {
+			encoding.rtx = { ssrc: baseRtxSsrc + idx };
+		} else {
+			delete encoding.rtx;
+		}
+
+		if (baseFecSsrc !== undefined) {
+			encoding.fec = { ssrc: baseFecSsrc + idx, mechanism: 'flexfec-03' };
+		} else {
+			delete encoding.fec;
+		}
+	}
+}
+
+
+/**
+ * Get the given BWE modes as an ordered list of preferred modes.
+ * It throws if invalid.
+ */
+function getBweModes(
+	bwe: BweMode | DeepReadonly<BweMode[]> | undefined
+): BweMode[] {
+	if (bwe === undefined) {
+		return DefaultBweModes;
+	}
+
+	const bweModes = typeof bwe === 'string' ? [bwe] : bwe;
+
+	if (!Array.isArray(bweModes) || bweModes.length === 0) {
+		throw new ValidationError('bwe must be a BWE mode or an Array of them', {
+			code: 'INVALID_TYPE',
+			path: 'bwe',
+			value: bwe,
+			expected: 'BWE mode or non empty array',
+		});
+	}
+
+	for (const [idx, mode] of bweModes.entries()) {
+		if (!DefaultBweModes.includes(mode)) {
+			throw new ValidationError(`invalid BWE mode [mode:${mode}]`, {
+				code: 'INVALID_VALUE',
+				path: typeof bwe === 'string' ? 'bwe' : joinPath('bwe', idx),
+				value: mode,
+				expected: `one of ${DefaultBweModes.join(', ')}`,
+			});
+		}
+	}
+
+	return [...bweModes];
+}
+
+
+/**
+ * Get a copy of the supported RTP capabilities extended with the codecs and
+ * RTP header extensions of the codec registry.
+ * It throws if the registered ones are invalid.
+ */
+function getAvailableRtpCapabilities(): RouterRtpCapabilities {
+	const caps = utils.clone<RouterRtpCapabilities>(supportedRtpCapabilities);
+
+	caps.codecs!.push(...utils.clone(getRegisteredCodecs()));
+
+	// registerCodec() already ensures that preferredIds don't collide.
+	for (const ext of utils.clone(getRegisteredHeaderExtensions())) {
+		// Already available.
+		if (
+			caps.headerExtensions!.some(
+				availableExt =>
+					availableExt.kind === ext.kind && availableExt.uri === ext.uri
+			)
+		) {
+			continue;
+		}
+
+		caps.headerExtensions!.push(ext);
+	}
+
+	// This may throw.
+	validateRtpCapabilities(caps);
+
+	return caps;
+}
+
+
+/**
+ * Get the given header extensions supported by the remote RTP capabilities of
+ * the given kind (matched by URI) with the remote preferred ids.
+ * It throws if two header extensions would get the same id.
+ */
+function remapHeaderExtensions(
+	headerExtensions: RtpHeaderExtensionParameters[],
+	capExtensions: RtpHeaderExtension[],
+	kind: MediaKind,
+	tracer?: OrtcTracer
+): RtpHeaderExtensionParameters[] {
+	const remappedHeaderExtensions: RtpHeaderExtensionParameters[] = [];
+
+	for (const ext of headerExtensions) {
+		const capIdx = capExtensions.findIndex(
+			capExt => capExt.kind === kind && capExt.uri === ext.uri
+		);
+
+		if (capIdx === -1) {
+			tracer?.({
+				type: 'headerExtensionDropped',
+				uri: ext.uri,
+				id: ext.id,
+				reason: 'not supported by the remote endpoint',
+			});
+
+			continue;
+		}
+
+		const { preferredId } = capExtensions[capIdx]!;
+
+		const collidingExt = remappedHeaderExtensions.find(
+			remappedExt => remappedExt.id === preferredId
+		);
+
+		if (collidingExt) {
+			throw new ValidationError(
+				`header extension id collision [uri:${ext.uri}, ` +
+					`collidingUri:${collidingExt.uri}, id:${preferredId}]`,
+				{
+					code: 'DUPLICATED_VALUE',
+					path: joinPath(
+						joinPath('remoteRtpCapabilities.headerExtensions', capIdx),
+						'preferredId'
+					),
+					value: preferredId,
+					expected: 'unique header extension id',
+				}
+			);
+		}
+
+		if (preferredId !== ext.id) {
+			tracer?.({
+				type: 'headerExtensionRemapped',
+				uri: ext.uri,
+				id: ext.id,
+				remoteId: preferredId,
+			});
+		}
+
+		remappedHeaderExtensions.push({ ...ext, id: preferredId });
+	}
+
+	return remappedHeaderExtensions;
+}
+
+
+function traceCodecDropped(
+	codec: DeepReadonly<RtpCodecParameters>,
+	reason: string,
+	tracer?: OrtcTracer
+): void {
+	tracer?.({
+		type: 'codecDropped',
+		mimeType: codec.mimeType,
+		payloadType: codec.payloadType,
+		reason,
+	});
+}
+
+
+function traceIntersectionCodecDropped(
+	codec: DeepReadonly<RtpCodecCapability>,
+	reason: string,
+	tracer?: OrtcTracer
+): void {
+	tracer?.({
+		type: 'codecDropped',
+		mimeType: codec.mimeType,
+		payloadType: codec.preferredPayloadType,
+		reason,
+	});
+}
+
+
+/**
+ * Removes the RTCP feedback entries of the given codec not passing the given
+ * filter, tracing each removed entry with the given reason.
+ */
+function filterRtcpFeedback(
+	codec: RtpCodecParameters,
+	filter: (fb: RtcpFeedback) => boolean,
+	reason: string,
+	tracer?: OrtcTracer
+): void {
+	codec.rtcpFeedback = codec.rtcpFeedback!.filter(fb => {
+		if (filter(fb)) {
+			return true;
+		}
+
+		tracer?.({
+			type: 'rtcpFeedbackDropped',
+			payloadType: codec.payloadType,
+			rtcpFeedback: fb,
+			reason,
+		});
+
+		return false;
+	});
+}
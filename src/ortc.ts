@@ -15,8 +15,12 @@ import type {
 	RtpCodecParameters,
 	RtcpFeedback,
 	RtpEncodingParameters,
+	RtpHeaderExtensionParameters,
+	RtcpParameters,
 } from './rtpParametersTypes';
 
+import type { SctpStreamParameters } from './sctpParametersTypes';
+
 import * as utils from './utils';
 
 import { UnsupportedError } from './errors';
@@ -79,6 +83,125 @@ export function validateRtpCapabilities(
 }
 
 
+/**
+ * Validates RtpParameters. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+export function validateRtpParameters(params: RtpParameters): void {
+	if (typeof params !== 'object') {
+		throw new TypeError('params is not an object');
+	}
+
+	// mid is optional.
+	if (params.mid && typeof params.mid !== 'string') {
+		throw new TypeError('params.mid is not a string');
+	}
+
+	// codecs is mandatory.
+	if (!Array.isArray(params.codecs)) {
+		throw new TypeError('missing params.codecs');
+	}
+
+	for (const codec of params.codecs) {
+		validateRtpCodecParameters(codec);
+	}
+
+	// headerExtensions is optional. If unset, fill with an empty array.
+	if (params.headerExtensions && !Array.isArray(params.headerExtensions)) {
+		throw new TypeError('params.headerExtensions is not an array');
+	} else if (!params.headerExtensions) {
+		params.headerExtensions = [];
+	}
+
+	for (const ext of params.headerExtensions) {
+		validateRtpHeaderExtensionParameters(ext);
+	}
+
+	// encodings is optional. If unset, fill with an empty array.
+	if (params.encodings && !Array.isArray(params.encodings)) {
+		throw new TypeError('params.encodings is not an array');
+	} else if (!params.encodings) {
+		params.encodings = [];
+	}
+
+	for (const encoding of params.encodings) {
+		validateRtpEncodingParameters(encoding);
+	}
+
+	// rtcp is optional. If unset, fill with an empty object.
+	if (params.rtcp && typeof params.rtcp !== 'object') {
+		throw new TypeError('params.rtcp is not an object');
+	} else if (!params.rtcp) {
+		params.rtcp = {};
+	}
+
+	validateRtcpParameters(params.rtcp);
+}
+
+
+/**
+ * Validates SctpStreamParameters. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+export function validateSctpStreamParameters(
+	params: SctpStreamParameters
+): void {
+	if (typeof params !== 'object') {
+		throw new TypeError('params is not an object');
+	}
+
+	// streamId is mandatory.
+	if (typeof params.streamId !== 'number') {
+		throw new TypeError('missing params.streamId');
+	}
+
+	// ordered is optional.
+	let orderedGiven = false;
+
+	if (typeof params.ordered === 'boolean') {
+		orderedGiven = true;
+	} else {
+		params.ordered = true;
+	}
+
+	// maxPacketLifeTime is optional.
+	if (
+		params.maxPacketLifeTime &&
+		typeof params.maxPacketLifeTime !== 'number'
+	) {
+		throw new TypeError('invalid params.maxPacketLifeTime');
+	}
+
+	// maxRetransmits is optional.
+	if (params.maxRetransmits && typeof params.maxRetransmits !== 'number') {
+		throw new TypeError('invalid params.maxRetransmits');
+	}
+
+	if (params.maxPacketLifeTime && params.maxRetransmits) {
+		throw new TypeError(
+			'cannot provide both maxPacketLifeTime and maxRetransmits'
+		);
+	}
+
+	if (
+		orderedGiven &&
+		params.ordered &&
+		(params.maxPacketLifeTime || params.maxRetransmits)
+	) {
+		throw new TypeError(
+			'cannot be ordered with maxPacketLifeTime or maxRetransmits'
+		);
+	} else if (
+		!orderedGiven &&
+		(params.maxPacketLifeTime || params.maxRetransmits)
+	) {
+		params.ordered = false;
+	}
+}
+
+
 /**
  * Generate RTP capabilities for the Router based on the given media codecs and
  * mediasoup supported RTP capabilities.
@@ -952,4 +1075,204 @@ function validateRtpHeaderExtension(ext: RtpHeaderExtension): void {
 	} else if (!ext.direction) {
 		ext.direction = 'sendrecv';
 	}
+}
+
+
+/**
+ * Validates RtpCodecParameters. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+export function validateRtpCodecParameters(codec: RtpCodecParameters): void {
+	const MimeTypeRegex = new RegExp('^(audio|video)/(.+)', 'i');
+
+	if (typeof codec !== 'object') {
+		throw new TypeError('codec is not an object');
+	}
+
+	// mimeType is mandatory.
+	if (!codec.mimeType || typeof codec.mimeType !== 'string') {
+		throw new TypeError('missing codec.mimeType');
+	}
+
+	const mimeTypeMatch = MimeTypeRegex.exec(codec.mimeType);
+
+	if (!mimeTypeMatch) {
+		throw new TypeError('invalid codec.mimeType');
+	}
+
+	// payloadType is mandatory.
+	if (typeof codec.payloadType !== 'number') {
+		throw new TypeError('missing codec.payloadType');
+	}
+
+	// clockRate is mandatory.
+	if (typeof codec.clockRate !== 'number') {
+		throw new TypeError('missing codec.clockRate');
+	}
+
+	const kind = mimeTypeMatch[1]!.toLowerCase() as MediaKind;
+
+	// channels is optional. If unset, set it to 1 (just if audio).
+	if (kind === 'audio') {
+		if (typeof codec.channels !== 'number') {
+			codec.channels = 1;
+		}
+	} else {
+		delete codec.channels;
+	}
+
+	// parameters is optional. If unset, set it to an empty object.
+	if (!codec.parameters || typeof codec.parameters !== 'object') {
+		codec.parameters = {};
+	}
+
+	for (const key of Object.keys(codec.parameters)) {
+		let value = codec.parameters[key];
+
+		if (value === undefined) {
+			codec.parameters[key] = '';
+			value = '';
+		}
+
+		if (typeof value !== 'string' && typeof value !== 'number') {
+			throw new TypeError(
+				`invalid codec parameter [key:${key}s, value:${value}]`
+			);
+		}
+
+		// Specific parameters validation.
+		if (key === 'apt') {
+			if (typeof value !== 'number') {
+				throw new TypeError('invalid codec apt parameter');
+			}
+		}
+	}
+
+	// rtcpFeedback is optional. If unset, set it to an empty array.
+	if (!codec.rtcpFeedback || !Array.isArray(codec.rtcpFeedback)) {
+		codec.rtcpFeedback = [];
+	}
+
+	for (const fb of codec.rtcpFeedback) {
+		validateRtcpFeedback(fb);
+	}
+}
+
+
+/**
+ * Validates RtpHeaderExtensionParameters. It may modify given data by adding
+ * missing fields with default values.
+ * It throws if invalid.
+ */
+export function validateRtpHeaderExtensionParameters(
+	ext: RtpHeaderExtensionParameters
+): void {
+	if (typeof ext !== 'object') {
+		throw new TypeError('ext is not an object');
+	}
+
+	// uri is mandatory.
+	if (!ext.uri || typeof ext.uri !== 'string') {
+		throw new TypeError('missing ext.uri');
+	}
+
+	// id is mandatory.
+	if (typeof ext.id !== 'number') {
+		throw new TypeError('missing ext.id');
+	}
+
+	// encrypt is optional. If unset set it to false.
+	if (ext.encrypt && typeof ext.encrypt !== 'boolean') {
+		throw new TypeError('invalid ext.encrypt');
+	} else if (!ext.encrypt) {
+		ext.encrypt = false;
+	}
+
+	// parameters is optional. If unset, set it to an empty object.
+	if (!ext.parameters || typeof ext.parameters !== 'object') {
+		ext.parameters = {};
+	}
+
+	for (const key of Object.keys(ext.parameters)) {
+		let value = ext.parameters[key];
+
+		if (value === undefined) {
+			ext.parameters[key] = '';
+			value = '';
+		}
+
+		if (typeof value !== 'string' && typeof value !== 'number') {
+			throw new TypeError('invalid header extension parameter');
+		}
+	}
+}
+
+
+/**
+ * Validates RtpEncodingParameters. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+export function validateRtpEncodingParameters(
+	encoding: RtpEncodingParameters
+): void {
+	if (typeof encoding !== 'object') {
+		throw new TypeError('encoding is not an object');
+	}
+
+	// ssrc is optional.
+	if (encoding.ssrc && typeof encoding.ssrc !== 'number') {
+		throw new TypeError('invalid encoding.ssrc');
+	}
+
+	// rid is optional.
+	if (encoding.rid && typeof encoding.rid !== 'string') {
+		throw new TypeError('invalid encoding.rid');
+	}
+
+	// rtx is optional.
+	if (encoding.rtx && typeof encoding.rtx !== 'object') {
+		throw new TypeError('invalid encoding.rtx');
+	} else if (encoding.rtx) {
+		// RTX ssrc is mandatory if rtx is present.
+		if (typeof encoding.rtx.ssrc !== 'number') {
+			throw new TypeError('missing encoding.rtx.ssrc');
+		}
+	}
+
+	// dtx is optional. If unset set it to false.
+	if (!encoding.dtx || typeof encoding.dtx !== 'boolean') {
+		encoding.dtx = false;
+	}
+
+	// scalabilityMode is optional.
+	if (
+		encoding.scalabilityMode &&
+		typeof encoding.scalabilityMode !== 'string'
+	) {
+		throw new TypeError('invalid encoding.scalabilityMode');
+	}
+}
+
+
+/**
+ * Validates RtcpParameters. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+export function validateRtcpParameters(rtcp: RtcpParameters): void {
+	if (typeof rtcp !== 'object') {
+		throw new TypeError('rtcp is not an object');
+	}
+
+	// cname is optional.
+	if (rtcp.cname && typeof rtcp.cname !== 'string') {
+		throw new TypeError('invalid rtcp.cname');
+	}
+
+	// reducedSize is optional. If unset set it to true.
+	if (!rtcp.reducedSize || typeof rtcp.reducedSize !== 'boolean') {
+		rtcp.reducedSize = true;
+	}
 }
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { UnsupportedError as BaseUnsupportedError } from './errors';
+
+
+export type UnsupportedErrorDetails = {
+	/**
+	 * MIME type of the codec that is not supported.
+	 */
+	mimeType?: string;
+
+	/**
+	 * Payload type of the codec that is not supported.
+	 */
+	payloadType?: number;
+
+	/**
+	 * Any other relevant information.
+	 */
+	[key: string]: unknown;
+};
+
+
+/**
+ * Machine readable code of a ValidationError.
+ */
+export type ValidationErrorCode =
+	// The value has not the expected type.
+	| 'INVALID_TYPE'
+	// A mandatory field is missing.
+	| 'MISSING_FIELD'
+	// The value has the expected type but it's not valid.
+	| 'INVALID_VALUE'
+	// The value is already used somewhere else where it must be unique.
+	| 'DUPLICATED_VALUE'
+	// The value is not valid in combination with other fields.
+	| 'CONFLICTING_FIELDS';
+
+
+export type ValidationErrorDetails = {
+	/**
+	 * Machine readable error code.
+	 */
+	code: ValidationErrorCode;
+
+	/**
+	 * Path of the offending field relative to the validated object (e.g.
+	 * 'codecs[3].parameters.apt'). Empty if it's the validated object itself.
+	 */
+	path: string;
+
+	/**
+	 * The offending value.
+	 */
+	value?: unknown;
+
+	/**
+	 * Description of the expected constraint (e.g. 'number').
+	 */
+	expected?: string;
+};
+
+
+/**
+ * Error indicating not support for something, with machine readable details
+ * about it. It's an instance of the upstream UnsupportedError.
+ */
+export class UnsupportedError extends BaseUnsupportedError {
+	readonly details: UnsupportedErrorDetails;
+
+	constructor(message: string, details: UnsupportedErrorDetails = {}) {
+		super(message);
+
+		this.details = details;
+
+		if (Error.hasOwnProperty('captureStackTrace')) {
+			// Just in V8.
+			Error.captureStackTrace(this, UnsupportedError);
+		}
+	}
+}
+
+
+/**
+ * Error produced when validating invalid data.
+ */
+export class ValidationError extends TypeError {
+	readonly code: ValidationErrorCode;
+
+	readonly path: string;
+
+	readonly value?: unknown;
+
+	readonly expected?: string;
+
+	constructor(
+		message: string,
+		{ code, path, value, expected }: ValidationErrorDetails
+	) {
+		super(path ? `${message} [path:${path}]` : message);
+
+		this.name = 'ValidationError';
+		this.code = code;
+		this.path = path;
+		this.value = value;
+		this.expected = expected;
+
+		if (Error.hasOwnProperty('captureStackTrace')) {
+			// Just in V8.
+			Error.captureStackTrace(this, ValidationError);
+		} else {
+			this.stack = new Error(message).stack;
+		}
+	}
+
+	toJSON(): ValidationErrorDetails & { message: string } {
+		return {
+			message: this.message,
+			code: this.code,
+			path: this.path,
+			value: this.value,
+			expected: this.expected,
+		};
+	}
+}
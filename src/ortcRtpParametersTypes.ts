@@ -0,0 +1,68 @@
+import type * as upstream from './rtpParametersTypes';
+
+// The upstream types, overriding the ones extended here.
+export type * from './rtpParametersTypes';
+
+
+/**
+ * Validated RTP parameters, with extended encodings.
+ */
+export type RtpParameters = Omit<upstream.RtpParameters, 'encodings'> & {
+	/**
+	 * Transmitted RTP streams and their settings.
+	 */
+	encodings?: RtpEncodingParameters[];
+};
+
+
+/**
+ * Provides information relating to an encoding, which represents a media RTP
+ * stream and its associated RTX and FEC streams (if any).
+ */
+export type RtpEncodingParameters = upstream.RtpEncodingParameters & {
+	/**
+	 * FEC stream information, for FEC mechanisms using a separate RTP stream
+	 * (such as 'flexfec-03'). It must contain a numeric ssrc field indicating
+	 * the FEC SSRC.
+	 */
+	fec?: { ssrc: number; mechanism?: string };
+
+	/**
+	 * Maximum frame rate (fps) announced for this stream.
+	 */
+	maxFramerate?: number;
+
+	/**
+	 * Factor by which the resolution of the video is scaled down in this stream
+	 * (e.g. 2 for half width and height). Must be 1 or greater.
+	 */
+	scaleResolutionDownBy?: number;
+
+	/**
+	 * Whether this stream is being sent. Default true.
+	 */
+	active?: boolean;
+
+	/**
+	 * Relative priority of this stream. See webrtc-priority.
+	 */
+	priority?: RtpPriority;
+
+	/**
+	 * Relative priority of this stream for the DSCP marking of its packets. See
+	 * webrtc-priority.
+	 */
+	networkPriority?: RtpPriority;
+
+	/**
+	 * Whether the audio packetization time may be adapted to the network
+	 * conditions. Default false.
+	 */
+	adaptivePtime?: boolean;
+};
+
+
+/**
+ * Priority of a RTP stream, from lowest to highest.
+ */
+export type RtpPriority = 'very-low' | 'low' | 'medium' | 'high';
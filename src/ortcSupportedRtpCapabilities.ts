@@ -0,0 +1,57 @@
+import {
+	supportedRtpCapabilities as upstreamSupportedRtpCapabilities,
+} from './supportedRtpCapabilities';
+
+import type {
+	RouterRtpCapabilities,
+	RouterRtpCodecCapability,
+} from './ortcRtpParametersTypes';
+
+
+// Codecs supported in addition to the upstream ones.
+const supportedCodecs: RouterRtpCodecCapability[] = [
+	{
+		kind: 'audio',
+		mimeType: 'audio/red',
+		clockRate: 48000,
+		channels: 2,
+	},
+	{
+		kind: 'video',
+		mimeType: 'video/H265',
+		clockRate: 90000,
+		parameters: {},
+		rtcpFeedback: [
+			{ type: 'nack' },
+			{ type: 'nack', parameter: 'pli' },
+			{ type: 'ccm', parameter: 'fir' },
+			{ type: 'goog-remb' },
+			{ type: 'transport-cc' },
+		],
+	},
+	{
+		kind: 'video',
+		mimeType: 'video/ulpfec',
+		clockRate: 90000,
+	},
+	{
+		kind: 'video',
+		mimeType: 'video/flexfec-03',
+		clockRate: 90000,
+		parameters: {
+			'repair-window': 10000000,
+		},
+	},
+];
+
+
+/**
+ * The upstream supported RTP capabilities, plus the RED, H265 and FEC codecs.
+ */
+export const supportedRtpCapabilities: RouterRtpCapabilities = {
+	...upstreamSupportedRtpCapabilities,
+	codecs: [
+		...(upstreamSupportedRtpCapabilities.codecs ?? []),
+		...supportedCodecs,
+	],
+};
@@ -0,0 +1,173 @@
+import type { RtcpFeedback } from './ortcRtpParametersTypes';
+
+
+/**
+ * Function receiving the decisions made by the ortc functions, to be used for
+ * logging or metrics.
+ */
+export type OrtcTracer = (event: OrtcTraceEvent) => void;
+
+
+export type OrtcTraceEvent =
+	| RouterCodecAddedTraceEvent
+	| CodecMappedTraceEvent
+	| EncodingMappedTraceEvent
+	| CodecMatchedTraceEvent
+	| CodecDroppedTraceEvent
+	| HeaderExtensionDroppedTraceEvent
+	| HeaderExtensionRemappedTraceEvent
+	| RtcpFeedbackDroppedTraceEvent
+	| BweSelectedTraceEvent
+	| ScalabilityModeRewrittenTraceEvent
+	| SctpStreamIdAllocatedTraceEvent;
+
+
+/**
+ * A codec has been added to the Router RTP capabilities.
+ */
+export type RouterCodecAddedTraceEvent = {
+	type: 'routerCodecAdded';
+
+	mimeType: string;
+
+	payloadType: number;
+
+	/**
+	 * Whether the payload type has been taken from the payload type allocator.
+	 */
+	allocated: boolean;
+};
+
+
+/**
+ * A Producer codec has been mapped to a Router codec.
+ */
+export type CodecMappedTraceEvent = {
+	type: 'codecMapped';
+
+	mimeType: string;
+
+	payloadType: number;
+
+	mappedPayloadType: number;
+};
+
+
+/**
+ * A Producer encoding has been mapped to a Router SSRC.
+ */
+export type EncodingMappedTraceEvent = {
+	type: 'encodingMapped';
+
+	ssrc?: number;
+
+	rid?: string;
+
+	mappedSsrc: number;
+};
+
+
+/**
+ * A consumable codec is supported by the remote endpoint.
+ */
+export type CodecMatchedTraceEvent = {
+	type: 'codecMatched';
+
+	mimeType: string;
+
+	payloadType: number;
+
+	remotePayloadType: number;
+};
+
+
+/**
+ * A consumable codec has been removed.
+ */
+export type CodecDroppedTraceEvent = {
+	type: 'codecDropped';
+
+	mimeType: string;
+
+	payloadType: number;
+
+	reason: string;
+};
+
+
+/**
+ * A header extension has been removed.
+ */
+export type HeaderExtensionDroppedTraceEvent = {
+	type: 'headerExtensionDropped';
+
+	uri: string;
+
+	id: number;
+
+	reason: string;
+};
+
+
+/**
+ * A header extension got the id preferred by the remote endpoint.
+ */
+export type HeaderExtensionRemappedTraceEvent = {
+	type: 'headerExtensionRemapped';
+
+	uri: string;
+
+	id: number;
+
+	remoteId: number;
+};
+
+
+/**
+ * A RTCP feedback entry of a codec has been removed.
+ */
+export type RtcpFeedbackDroppedTraceEvent = {
+	type: 'rtcpFeedbackDropped';
+
+	payloadType: number;
+
+	rtcpFeedback: RtcpFeedback;
+
+	reason: string;
+};
+
+
+/**
+ * The bandwidth estimation mechanism of a Consumer has been selected.
+ */
+export type BweSelectedTraceEvent = {
+	type: 'bweSelected';
+
+	mode: 'transport-cc' | 'remb' | 'none';
+};
+
+
+/**
+ * The scalability mode of a Consumer has been computed from the consumable
+ * encodings.
+ */
+export type ScalabilityModeRewrittenTraceEvent = {
+	type: 'scalabilityModeRewritten';
+
+	/**
+	 * Scalability mode of the consumable encodings, if any.
+	 */
+	scalabilityMode?: string;
+
+	consumerScalabilityMode: string;
+};
+
+
+/**
+ * A SCTP stream id has been allocated for a DataConsumer.
+ */
+export type SctpStreamIdAllocatedTraceEvent = {
+	type: 'sctpStreamIdAllocated';
+
+	streamId: number;
+};
@@ -0,0 +1,53 @@
+/**
+ * Recursively makes all the properties of the given type readonly, so
+ * TypeScript catches accidental mutations of shared data.
+ */
+export type DeepReadonly<T> = T extends (infer U)[]
+	? readonly DeepReadonly<U>[]
+	: T extends object
+		? { readonly [K in keyof T]: DeepReadonly<T[K]> }
+		: T;
+
+
+/**
+ * Function returning a random positive integer, used to generate SSRCs.
+ */
+export type RandomNumberGenerator = () => number;
+
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32) returning
+ * integers in the same range as generateRandomNumber(), so the same seed
+ * always produces the same sequence. Not suitable for cryptographic usage.
+ */
+export function createSeededRandomNumberGenerator(
+	seed: number
+): RandomNumberGenerator {
+	let state = seed >>> 0;
+
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+
+		let t = state;
+
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+		const value = ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+
+		return 100_000_000 + Math.floor(value * 899_999_999);
+	};
+}
+
+
+/**
+ * Get the path of the given key (field name or array index) of the value at
+ * the given path, as used by ValidationError.
+ */
+export function joinPath(path: string, key: string | number): string {
+	if (typeof key === 'number') {
+		return `${path}[${key}]`;
+	}
+
+	return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,106 @@
+import { parseScalabilityMode } from '@mafalda-sfu/scalabilitymodesutils';
+
+import { UnsupportedError } from './ortcErrors';
+
+
+// Scalability modes of the W3C "Scalable Video Coding (SVC) Extension for
+// WebRTC" specification.
+const W3cScalabilityModeRegex =
+	/^(?:L1T[1-3]|L[23]T[1-3](?:h|_KEY)?|L[23]T[23]_KEY_SHIFT|S[23]T[1-3]h?)$/;
+
+
+export type ScalabilityMode = {
+	spatialLayers: number;
+
+	temporalLayers: number;
+
+	/**
+	 * Whether spatial layers don't depend on each other ('S' modes).
+	 */
+	independentLayers: boolean;
+
+	/**
+	 * Resolution ratio between spatial layers, 1.5 for 'h' modes.
+	 */
+	resolutionRatio: 1.5 | 2;
+
+	/**
+	 * Whether spatial layers only depend on each other in key frames ('_KEY'
+	 * modes).
+	 */
+	ksvc: boolean;
+
+	/**
+	 * Whether temporal layers of each spatial layer are shifted ('_KEY_SHIFT'
+	 * modes).
+	 */
+	shift: boolean;
+};
+
+
+/**
+ * Whether the given scalability mode is one of the W3C ones (such as 'L1T3',
+ * 'L3T3_KEY', 'L2T2h' or 'S2T3').
+ */
+export function isW3cScalabilityMode(scalabilityMode: string): boolean {
+	return W3cScalabilityModeRegex.test(scalabilityMode);
+}
+
+
+/**
+ * Parse the given W3C scalability mode.
+ * It throws if it's not a W3C scalability mode.
+ */
+export function parseW3cScalabilityMode(
+	scalabilityMode: string
+): ScalabilityMode {
+	if (!isW3cScalabilityMode(scalabilityMode)) {
+		throw new UnsupportedError(
+			`unsupported scalability mode [scalabilityMode:${scalabilityMode}]`,
+			{ scalabilityMode }
+		);
+	}
+
+	const { spatialLayers, temporalLayers } =
+		parseScalabilityMode(scalabilityMode);
+
+	return {
+		spatialLayers,
+		temporalLayers,
+		independentLayers: scalabilityMode.startsWith('S'),
+		resolutionRatio: scalabilityMode.endsWith('h') ? 1.5 : 2,
+		ksvc: scalabilityMode.includes('_KEY'),
+		shift: scalabilityMode.endsWith('_SHIFT'),
+	};
+}
+
+
+/**
+ * Get the string of the given scalability mode, dropping the suffixes that
+ * don't apply to its number of layers (such as '_KEY' with a single spatial
+ * layer, or '_SHIFT' with a single temporal layer).
+ */
+export function stringifyScalabilityMode({
+	spatialLayers,
+	temporalLayers,
+	independentLayers,
+	resolutionRatio,
+	ksvc,
+	shift,
+}: ScalabilityMode): string {
+	if (spatialLayers === 1) {
+		return `L1T${temporalLayers}`;
+	}
+
+	const layers = `${spatialLayers}T${temporalLayers}`;
+
+	if (independentLayers) {
+		return `S${layers}${resolutionRatio === 1.5 ? 'h' : ''}`;
+	}
+
+	if (ksvc) {
+		return `L${layers}_KEY${shift && temporalLayers > 1 ? '_SHIFT' : ''}`;
+	}
+
+	return `L${layers}${resolutionRatio === 1.5 ? 'h' : ''}`;
+}
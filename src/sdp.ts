@@ -0,0 +1,987 @@
+import type {
+	MediaKind,
+	RtpCapabilities,
+	RtpCodecCapability,
+	RtpCodecParameters,
+	RtpEncodingParameters,
+	RtpHeaderExtension,
+	RtpHeaderExtensionDirection,
+	RtpHeaderExtensionParameters,
+	RtpHeaderExtensionUri,
+	RtpParameters,
+	RtpPriority,
+	RtcpFeedback,
+} from './ortcRtpParametersTypes';
+
+import { ValidationError } from './ortcErrors';
+
+
+/**
+ * Direction of a SDP media section.
+ */
+export type MediaSectionDirection =
+	| 'sendrecv'
+	| 'sendonly'
+	| 'recvonly'
+	| 'inactive';
+
+
+/**
+ * A Unified Plan SDP media section (m= section) and the RTP parameters it
+ * describes.
+ */
+export type MediaSection = {
+	/**
+	 * Media kind of the m= line.
+	 */
+	kind: MediaKind;
+
+	/**
+	 * Port of the m= line. Default 9.
+	 */
+	port?: number;
+
+	/**
+	 * Transport protocol of the m= line. Default 'UDP/TLS/RTP/SAVPF'.
+	 */
+	protocol?: string;
+
+	/**
+	 * Direction of the media section. Default 'sendrecv'.
+	 */
+	direction?: MediaSectionDirection;
+
+	/**
+	 * Value of the a=msid line (e.g. '<stream id> <track id>').
+	 */
+	msid?: string;
+
+	/**
+	 * RTP parameters of the media section. Its mid is written into the a=mid
+	 * line.
+	 */
+	rtpParameters: RtpParameters;
+};
+
+
+const EncryptUri = 'urn:ietf:params:rtp-hdrext:encrypt';
+
+// Payload types that may be used without an a=rtpmap line (RFC 3551).
+const StaticPayloadTypes: Record<
+	number,
+	{ kind: MediaKind; name: string; clockRate: number }
+> = {
+	0: { kind: 'audio', name: 'PCMU', clockRate: 8000 },
+	8: { kind: 'audio', name: 'PCMA', clockRate: 8000 },
+	9: { kind: 'audio', name: 'G722', clockRate: 8000 },
+	13: { kind: 'audio', name: 'CN', clockRate: 8000 },
+};
+
+// Codec parameters whose values must be kept as strings even if they look
+// like numbers.
+const StringCodecParameters = ['profile-level-id'];
+
+// Non standard source attributes (RFC 5576) used to carry encoding fields that
+// have no SDP representation.
+const ScalabilityModeSourceAttribute = 'x-scalability-mode';
+const MaxBitrateSourceAttribute = 'x-max-bitrate';
+const MaxFramerateSourceAttribute = 'x-max-framerate';
+const ScaleResolutionDownBySourceAttribute = 'x-scale-resolution-down-by';
+const ActiveSourceAttribute = 'x-active';
+const PrioritySourceAttribute = 'x-priority';
+const NetworkPrioritySourceAttribute = 'x-network-priority';
+const AdaptivePtimeSourceAttribute = 'x-adaptive-ptime';
+const DtxSourceAttribute = 'x-dtx';
+const CodecPayloadTypeSourceAttribute = 'x-codec-payload-type';
+
+
+/**
+ * Parse all the audio and video media sections of the given Unified Plan SDP.
+ * Other media sections (such as 'application') are ignored.
+ */
+export function parseSdp(sdp: string): MediaSection[] {
+	return splitMediaSections(sdp)
+		.filter(lines => /^m=(audio|video) /.test(lines[0]!))
+		.map(parseMediaSectionLines);
+}
+
+
+/**
+ * Parse a single SDP media section, starting with its m= line.
+ * It throws if it's not an audio or video media section.
+ */
+export function parseMediaSection(section: string): MediaSection {
+	const [lines] = splitMediaSections(section);
+
+	if (!lines || !/^m=(audio|video) /.test(lines[0]!)) {
+		throw new ValidationError('invalid media section', {
+			code: 'INVALID_VALUE',
+			path: 'section',
+			value: section,
+			expected: 'audio or video media section starting with its m= line',
+		});
+	}
+
+	return parseMediaSectionLines(lines);
+}
+
+
+/**
+ * Generate a Unified Plan SDP with a BUNDLE group including the given media
+ * sections. Transport related attributes (ICE, DTLS) are not included.
+ */
+export function serializeSdp(
+	mediaSections: MediaSection[],
+	{
+		sessionId = Date.now(),
+		sessionVersion = 1,
+	}: { sessionId?: number; sessionVersion?: number } = {}
+): string {
+	const mids = mediaSections
+		.map(({ rtpParameters }) => rtpParameters.mid)
+		.filter(mid => mid !== undefined);
+
+	return (
+		serializeSessionSection(mids, sessionId, sessionVersion) +
+		mediaSections.map(serializeMediaSection).join('')
+	);
+}
+
+
+/**
+ * Generate a SDP media section describing the given RTP parameters.
+ *
+ * Fields of rid based encodings without a RID restriction (RFC 8851) nor a
+ * simulcast paused mark (RFC 8853), such as scalabilityMode,
+ * scaleResolutionDownBy or priority, are not serialized.
+ */
+export function serializeMediaSection({
+	kind,
+	port = 9,
+	protocol = 'UDP/TLS/RTP/SAVPF',
+	direction = 'sendrecv',
+	msid,
+	rtpParameters,
+}: MediaSection): string {
+	const { codecs, headerExtensions = [], encodings = [], rtcp = {} } =
+		rtpParameters;
+
+	const lines = [
+		`m=${kind} ${port} ${protocol} ${codecs.map(c => c.payloadType).join(' ')}`,
+		'c=IN IP4 0.0.0.0',
+	];
+
+	if (rtpParameters.mid !== undefined) {
+		lines.push(`a=mid:${rtpParameters.mid}`);
+	}
+
+	for (const ext of headerExtensions) {
+		lines.push(serializeExtmap(ext.id, ext.uri, ext.encrypt));
+	}
+
+	lines.push(`a=${direction}`);
+
+	if (msid) {
+		lines.push(`a=msid:${msid}`);
+	}
+
+	lines.push('a=rtcp-mux');
+
+	if (rtcp.reducedSize !== false) {
+		lines.push('a=rtcp-rsize');
+	}
+
+	for (const codec of codecs) {
+		lines.push(...serializeCodec(kind, codec.payloadType, codec));
+	}
+
+	// rid based encodings.
+	const rids = encodings
+		.filter(encoding => encoding.rid !== undefined)
+		.map(encoding => encoding as RtpEncodingParameters & { rid: string });
+
+	if (rids.length) {
+		const ridDirection =
+			direction === 'sendrecv' || direction === 'sendonly' ? 'send' : 'recv';
+
+		for (const { rid, codecPayloadType, maxBitrate, maxFramerate } of rids) {
+			const restrictions: string[] = [];
+
+			if (codecPayloadType !== undefined) {
+				restrictions.push(`pt=${codecPayloadType}`);
+			}
+
+			if (maxBitrate !== undefined) {
+				restrictions.push(`max-br=${maxBitrate}`);
+			}
+
+			if (maxFramerate !== undefined) {
+				restrictions.push(`max-fps=${maxFramerate}`);
+			}
+
+			lines.push(
+				`a=rid:${rid} ${ridDirection}${
+					restrictions.length ? ` ${restrictions.join(';')}` : ''
+				}`
+			);
+		}
+
+		// Inactive encodings are marked as paused.
+		lines.push(
+			`a=simulcast:${ridDirection} ${rids
+				.map(({ rid, active }) => (active === false ? `~${rid}` : rid))
+				.join(';')}`
+		);
+	}
+
+	// ssrc based encodings.
+	const ssrcEncodings = encodings.filter(
+		encoding => encoding.rid === undefined && encoding.ssrc !== undefined
+	);
+
+	if (ssrcEncodings.length > 1) {
+		lines.push(
+			`a=ssrc-group:SIM ${ssrcEncodings.map(({ ssrc }) => ssrc).join(' ')}`
+		);
+	}
+
+	for (const { ssrc, rtx, fec } of ssrcEncodings) {
+		if (rtx) {
+			lines.push(`a=ssrc-group:FID ${ssrc} ${rtx.ssrc}`);
+		}
+
+		if (fec) {
+			lines.push(`a=ssrc-group:FEC-FR ${ssrc} ${fec.ssrc}`);
+		}
+	}
+
+	for (const encoding of ssrcEncodings) {
+		const {
+			ssrc,
+			rtx,
+			fec,
+			scalabilityMode,
+			maxBitrate,
+			maxFramerate,
+			scaleResolutionDownBy,
+			active,
+			priority,
+			networkPriority,
+			adaptivePtime,
+			dtx,
+			codecPayloadType,
+		} = encoding;
+
+		lines.push(...serializeSsrc(ssrc!, rtcp.cname, msid));
+
+		if (scalabilityMode !== undefined) {
+			lines.push(
+				`a=ssrc:${ssrc} ${ScalabilityModeSourceAttribute}:${scalabilityMode}`
+			);
+		}
+
+		if (maxBitrate !== undefined) {
+			lines.push(`a=ssrc:${ssrc} ${MaxBitrateSourceAttribute}:${maxBitrate}`);
+		}
+
+		if (maxFramerate !== undefined) {
+			lines.push(
+				`a=ssrc:${ssrc} ${MaxFramerateSourceAttribute}:${maxFramerate}`
+			);
+		}
+
+		if (scaleResolutionDownBy !== undefined) {
+			lines.push(
+				`a=ssrc:${ssrc} ${ScaleResolutionDownBySourceAttribute}:${scaleResolutionDownBy}`
+			);
+		}
+
+		if (active !== undefined) {
+			lines.push(`a=ssrc:${ssrc} ${ActiveSourceAttribute}:${active ? 1 : 0}`);
+		}
+
+		if (priority !== undefined) {
+			lines.push(`a=ssrc:${ssrc} ${PrioritySourceAttribute}:${priority}`);
+		}
+
+		if (networkPriority !== undefined) {
+			lines.push(
+				`a=ssrc:${ssrc} ${NetworkPrioritySourceAttribute}:${networkPriority}`
+			);
+		}
+
+		if (adaptivePtime !== undefined) {
+			lines.push(
+				`a=ssrc:${ssrc} ${AdaptivePtimeSourceAttribute}:${adaptivePtime ? 1 : 0}`
+			);
+		}
+
+		if (dtx !== undefined) {
+			lines.push(`a=ssrc:${ssrc} ${DtxSourceAttribute}:${dtx ? 1 : 0}`);
+		}
+
+		if (codecPayloadType !== undefined) {
+			lines.push(
+				`a=ssrc:${ssrc} ${CodecPayloadTypeSourceAttribute}:${codecPayloadType}`
+			);
+		}
+
+		if (rtx) {
+			lines.push(...serializeSsrc(rtx.ssrc, rtcp.cname, msid));
+		}
+
+		if (fec) {
+			lines.push(...serializeSsrc(fec.ssrc, rtcp.cname, msid));
+		}
+	}
+
+	return `${lines.join('\r\n')}\r\n`;
+}
+
+
+/**
+ * Extract the RTP capabilities of all the audio and video media sections of
+ * the given SDP. Codecs with the same payload type and header extensions with
+ * the same URI are only taken once per kind.
+ */
+export function parseRtpCapabilities(sdp: string): RtpCapabilities {
+	const codecs: RtpCodecCapability[] = [];
+	const headerExtensions: RtpHeaderExtension[] = [];
+
+	for (const lines of splitMediaSections(sdp)) {
+		const mLine = /^m=(audio|video) /.exec(lines[0]!);
+
+		if (!mLine) {
+			continue;
+		}
+
+		const kind = mLine[1] as MediaKind;
+
+		for (const codec of parseCodecs(kind, lines)) {
+			if (
+				codecs.some(
+					c => c.kind === kind && c.preferredPayloadType === codec.payloadType
+				)
+			) {
+				continue;
+			}
+
+			const capCodec: RtpCodecCapability = {
+				kind,
+				mimeType: codec.mimeType,
+				preferredPayloadType: codec.payloadType,
+				clockRate: codec.clockRate,
+				parameters: codec.parameters,
+				rtcpFeedback: codec.rtcpFeedback,
+			};
+
+			if (codec.channels !== undefined) {
+				capCodec.channels = codec.channels;
+			}
+
+			codecs.push(capCodec);
+		}
+
+		for (const { ext, direction } of parseExtmaps(lines)) {
+			if (headerExtensions.some(e => e.kind === kind && e.uri === ext.uri)) {
+				continue;
+			}
+
+			headerExtensions.push({
+				kind,
+				uri: ext.uri,
+				preferredId: ext.id,
+				preferredEncrypt: ext.encrypt,
+				direction,
+			});
+		}
+	}
+
+	return { codecs, headerExtensions };
+}
+
+
+/**
+ * Generate a SDP with a media section for each media kind present in the
+ * given RTP capabilities.
+ */
+export function serializeRtpCapabilities(
+	caps: RtpCapabilities,
+	{
+		direction = 'recvonly',
+		sessionId = Date.now(),
+		sessionVersion = 1,
+	}: {
+		direction?: MediaSectionDirection;
+		sessionId?: number;
+		sessionVersion?: number;
+	} = {}
+): string {
+	const { codecs = [], headerExtensions = [] } = caps;
+	const mediaSections: string[] = [];
+
+	for (const kind of ['audio', 'video'] as MediaKind[]) {
+		const kindCodecs = codecs.filter(codec => codec.kind === kind);
+
+		if (!kindCodecs.length) {
+			continue;
+		}
+
+		const lines = [
+			`m=${kind} 9 UDP/TLS/RTP/SAVPF ${kindCodecs
+				.map(c => c.preferredPayloadType)
+				.join(' ')}`,
+			'c=IN IP4 0.0.0.0',
+			`a=mid:${mediaSections.length}`,
+		];
+
+		for (const ext of headerExtensions) {
+			if (ext.kind !== kind) {
+				continue;
+			}
+
+			lines.push(
+				serializeExtmap(
+					ext.preferredId,
+					ext.uri,
+					ext.preferredEncrypt,
+					ext.direction
+				)
+			);
+		}
+
+		lines.push(`a=${direction}`, 'a=rtcp-mux', 'a=rtcp-rsize');
+
+		for (const codec of kindCodecs) {
+			lines.push(...serializeCodec(kind, codec.preferredPayloadType, codec));
+		}
+
+		mediaSections.push(`${lines.join('\r\n')}\r\n`);
+	}
+
+	return (
+		serializeSessionSection(
+			mediaSections.map((_, idx) => `${idx}`),
+			sessionId,
+			sessionVersion
+		) + mediaSections.join('')
+	);
+}
+
+
+function serializeSessionSection(
+	mids: string[],
+	sessionId: number,
+	sessionVersion: number
+): string {
+	const lines = [
+		'v=0',
+		`o=- ${sessionId} ${sessionVersion} IN IP4 127.0.0.1`,
+		's=-',
+		't=0 0',
+	];
+
+	if (mids.length) {
+		lines.push(`a=group:BUNDLE ${mids.join(' ')}`);
+	}
+
+	lines.push('a=msid-semantic: WMS *');
+
+	return `${lines.join('\r\n')}\r\n`;
+}
+
+
+function splitMediaSections(sdp: string): string[][] {
+	const sections: string[][] = [];
+	let current: string[] | undefined;
+
+	for (const line of sdp.split(/\r?\n/)) {
+		const trimmedLine = line.trim();
+
+		if (!trimmedLine) {
+			continue;
+		}
+
+		if (trimmedLine.startsWith('m=')) {
+			current = [];
+			sections.push(current);
+		}
+
+		// Session level lines are ignored.
+		current?.push(trimmedLine);
+	}
+
+	return sections;
+}
+
+
+function parseMediaSectionLines(lines: string[]): MediaSection {
+	const [, kind, port, protocol] = /^m=(\w+) (\d+)(?:\/\d+)? (\S+)/.exec(
+		lines[0]!
+	)!;
+
+	const mediaSection: MediaSection = {
+		kind: kind as MediaKind,
+		port: Number(port),
+		protocol,
+		direction: 'sendrecv',
+		rtpParameters: {
+			codecs: parseCodecs(kind as MediaKind, lines),
+			headerExtensions: parseExtmaps(lines).map(({ ext }) => ext),
+			encodings: [],
+			rtcp: { reducedSize: lines.includes('a=rtcp-rsize') },
+		},
+	};
+
+	const { rtpParameters } = mediaSection;
+
+	for (const line of lines) {
+		if (/^a=(sendrecv|sendonly|recvonly|inactive)$/.test(line)) {
+			mediaSection.direction = line.slice(2) as MediaSectionDirection;
+		} else if (line.startsWith('a=mid:')) {
+			rtpParameters.mid = line.slice('a=mid:'.length);
+		} else if (line.startsWith('a=msid:')) {
+			mediaSection.msid = line.slice('a=msid:'.length);
+		}
+	}
+
+	const { encodings, cname } = parseEncodings(lines);
+
+	rtpParameters.encodings = encodings;
+
+	if (cname) {
+		rtpParameters.rtcp!.cname = cname;
+	}
+
+	return mediaSection;
+}
+
+
+function parseCodecs(kind: MediaKind, lines: string[]): RtpCodecParameters[] {
+	const payloadTypes = lines[0]!.split(' ').slice(3).map(Number);
+	const codecs = new Map<number, RtpCodecParameters>();
+
+	for (const payloadType of payloadTypes) {
+		const staticCodec = StaticPayloadTypes[payloadType];
+
+		if (!staticCodec || staticCodec.kind !== kind) {
+			continue;
+		}
+
+		codecs.set(payloadType, {
+			mimeType: `${kind}/${staticCodec.name}`,
+			payloadType,
+			clockRate: staticCodec.clockRate,
+			channels: 1,
+			parameters: {},
+			rtcpFeedback: [],
+		});
+	}
+
+	for (const line of lines) {
+		const match = /^a=rtpmap:(\d+) ([^/\s]+)\/(\d+)(?:\/(\d+))?/.exec(line);
+
+		if (!match) {
+			continue;
+		}
+
+		const payloadType = Number(match[1]);
+
+		if (!payloadTypes.includes(payloadType)) {
+			continue;
+		}
+
+		const codec: RtpCodecParameters = {
+			mimeType: `${kind}/${match[2]}`,
+			payloadType,
+			clockRate: Number(match[3]),
+			parameters: {},
+			rtcpFeedback: [],
+		};
+
+		if (kind === 'audio') {
+			codec.channels = match[4] ? Number(match[4]) : 1;
+		}
+
+		codecs.set(payloadType, codec);
+	}
+
+	const wildcardFeedback: RtcpFeedback[] = [];
+
+	for (const line of lines) {
+		let match = /^a=fmtp:(\d+) (.+)$/.exec(line);
+
+		if (match) {
+			const codec = codecs.get(Number(match[1]));
+
+			if (codec) {
+				Object.assign(codec.parameters!, parseFmtp(match[2]!));
+			}
+
+			continue;
+		}
+
+		match = /^a=rtcp-fb:(\d+|\*) (\S+)(?: (.+))?$/.exec(line);
+
+		if (match) {
+			const fb: RtcpFeedback = { type: match[2]!, parameter: match[3] ?? '' };
+
+			if (match[1] === '*') {
+				wildcardFeedback.push(fb);
+			} else {
+				codecs.get(Number(match[1]))?.rtcpFeedback!.push(fb);
+			}
+		}
+	}
+
+	// Keep the order of the m= line.
+	const result: RtpCodecParameters[] = [];
+
+	for (const payloadType of payloadTypes) {
+		const codec = codecs.get(payloadType);
+
+		if (!codec) {
+			continue;
+		}
+
+		for (const fb of wildcardFeedback) {
+			codec.rtcpFeedback!.push({ ...fb });
+		}
+
+		result.push(codec);
+	}
+
+	return result;
+}
+
+
+function parseFmtp(fmtp: string): Record<string, unknown> {
+	const parameters: Record<string, unknown> = {};
+
+	for (const param of fmtp.split(';')) {
+		const trimmedParam = param.trim();
+
+		if (!trimmedParam) {
+			continue;
+		}
+
+		const idx = trimmedParam.indexOf('=');
+
+		// Parameters without a key (such as the RED redundancy list of RFC 2198
+		// or the events of RFC 4733) are stored with an empty key.
+		const key = idx === -1 ? '' : trimmedParam.slice(0, idx);
+		const value = idx === -1 ? trimmedParam : trimmedParam.slice(idx + 1);
+
+		parameters[key] =
+			!StringCodecParameters.includes(key) && String(Number(value)) === value
+				? Number(value)
+				: value;
+	}
+
+	return parameters;
+}
+
+
+function parseExtmaps(lines: string[]): {
+	ext: RtpHeaderExtensionParameters;
+	direction: RtpHeaderExtensionDirection;
+}[] {
+	const extmaps: {
+		ext: RtpHeaderExtensionParameters;
+		direction: RtpHeaderExtensionDirection;
+	}[] = [];
+
+	for (const line of lines) {
+		const match = /^a=extmap:(\d+)(?:\/(\w+))? (\S+)(?: (\S+))?/.exec(line);
+
+		if (!match) {
+			continue;
+		}
+
+		const encrypt = match[3] === EncryptUri && match[4] !== undefined;
+
+		extmaps.push({
+			ext: {
+				uri: (encrypt ? match[4] : match[3]) as RtpHeaderExtensionUri,
+				id: Number(match[1]),
+				encrypt,
+				parameters: {},
+			},
+			direction: (match[2] ?? 'sendrecv') as RtpHeaderExtensionDirection,
+		});
+	}
+
+	return extmaps;
+}
+
+
+function parseEncodings(lines: string[]): {
+	encodings: RtpEncodingParameters[];
+	cname?: string;
+} {
+	const ssrcs = new Map<number, Map<string, string>>();
+	const ssrcGroups: { semantics: string; ssrcs: number[] }[] = [];
+	const rids = new Map<string, RtpEncodingParameters>();
+	let simulcastRids: string[] | undefined;
+	const pausedRids = new Set<string>();
+	let tias: number | undefined;
+
+	for (const line of lines) {
+		let match = /^a=ssrc:(\d+) ([^:\s]+)(?::(.*))?$/.exec(line);
+
+		if (match) {
+			const ssrc = Number(match[1]);
+
+			if (!ssrcs.has(ssrc)) {
+				ssrcs.set(ssrc, new Map());
+			}
+
+			ssrcs.get(ssrc)!.set(match[2]!, match[3] ?? '');
+
+			continue;
+		}
+
+		match = /^a=ssrc-group:(\S+) (.+)$/.exec(line);
+
+		if (match) {
+			ssrcGroups.push({
+				semantics: match[1]!,
+				ssrcs: match[2]!.trim().split(/\s+/).map(Number),
+			});
+
+			continue;
+		}
+
+		match = /^a=rid:(\S+) (send|recv)(?: (.+))?$/.exec(line);
+
+		if (match) {
+			const encoding: RtpEncodingParameters = { rid: match[1]! };
+
+			for (const restriction of (match[3] ?? '').split(';')) {
+				const [key, value] = restriction.trim().split('=');
+
+				if (key === 'pt' && value) {
+					encoding.codecPayloadType = Number(value.split(',')[0]);
+				} else if (key === 'max-br' && value) {
+					encoding.maxBitrate = Number(value);
+				} else if (key === 'max-fps' && value) {
+					encoding.maxFramerate = Number(value);
+				}
+			}
+
+			rids.set(encoding.rid!, encoding);
+
+			continue;
+		}
+
+		match = /^a=simulcast:(?:send|recv) (\S+)/.exec(line);
+
+		if (match) {
+			// Take the first alternative of each stream, and the paused ones as
+			// inactive.
+			simulcastRids = match[1]!.split(';').map(stream => {
+				const rid = stream.split(',')[0]!;
+
+				if (rid.startsWith('~')) {
+					pausedRids.add(rid.slice(1));
+				}
+
+				return rid.replace(/^~/, '');
+			});
+
+			continue;
+		}
+
+		match = /^b=TIAS:(\d+)$/.exec(line);
+
+		if (match) {
+			tias = Number(match[1]);
+		}
+	}
+
+	let cname: string | undefined;
+
+	for (const attributes of ssrcs.values()) {
+		cname = attributes.get('cname') || undefined;
+
+		if (cname) {
+			break;
+		}
+	}
+
+	const encodings: RtpEncodingParameters[] = [];
+
+	if (rids.size) {
+		for (const rid of simulcastRids ?? rids.keys()) {
+			const encoding = rids.get(rid);
+
+			if (!encoding) {
+				continue;
+			}
+
+			if (pausedRids.has(rid)) {
+				encoding.active = false;
+			}
+
+			encodings.push(encoding);
+		}
+	} else {
+		const rtxSsrcs = new Map<number, number>();
+		const fecSsrcs = new Map<number, number>();
+
+		for (const { semantics, ssrcs: groupSsrcs } of ssrcGroups) {
+			if (semantics === 'FID' && groupSsrcs.length === 2) {
+				rtxSsrcs.set(groupSsrcs[0]!, groupSsrcs[1]!);
+			} else if (semantics === 'FEC-FR' && groupSsrcs.length === 2) {
+				fecSsrcs.set(groupSsrcs[0]!, groupSsrcs[1]!);
+			}
+		}
+
+		const simGroup = ssrcGroups.find(({ semantics }) => semantics === 'SIM');
+		const mediaSsrcs = simGroup
+			? simGroup.ssrcs
+			: [...ssrcs.keys()].filter(
+					ssrc =>
+						![...rtxSsrcs.values()].includes(ssrc) &&
+						![...fecSsrcs.values()].includes(ssrc)
+				);
+
+		for (const ssrc of mediaSsrcs) {
+			const encoding: RtpEncodingParameters = { ssrc };
+			const rtxSsrc = rtxSsrcs.get(ssrc);
+			const fecSsrc = fecSsrcs.get(ssrc);
+			const attributes = ssrcs.get(ssrc);
+
+			if (rtxSsrc !== undefined) {
+				encoding.rtx = { ssrc: rtxSsrc };
+			}
+
+			if (fecSsrc !== undefined) {
+				encoding.fec = { ssrc: fecSsrc, mechanism: 'flexfec-03' };
+			}
+
+			const scalabilityMode = attributes?.get(ScalabilityModeSourceAttribute);
+			const maxBitrate = attributes?.get(MaxBitrateSourceAttribute);
+			const maxFramerate = attributes?.get(MaxFramerateSourceAttribute);
+			const scaleResolutionDownBy = attributes?.get(
+				ScaleResolutionDownBySourceAttribute
+			);
+			const active = attributes?.get(ActiveSourceAttribute);
+			const priority = attributes?.get(PrioritySourceAttribute);
+			const networkPriority = attributes?.get(NetworkPrioritySourceAttribute);
+			const adaptivePtime = attributes?.get(AdaptivePtimeSourceAttribute);
+			const dtx = attributes?.get(DtxSourceAttribute);
+			const codecPayloadType = attributes?.get(
+				CodecPayloadTypeSourceAttribute
+			);
+
+			if (scalabilityMode !== undefined) {
+				encoding.scalabilityMode = scalabilityMode;
+			}
+
+			if (maxBitrate !== undefined) {
+				encoding.maxBitrate = Number(maxBitrate);
+			}
+
+			if (maxFramerate !== undefined) {
+				encoding.maxFramerate = Number(maxFramerate);
+			}
+
+			if (scaleResolutionDownBy !== undefined) {
+				encoding.scaleResolutionDownBy = Number(scaleResolutionDownBy);
+			}
+
+			if (active !== undefined) {
+				encoding.active = active === '1';
+			}
+
+			if (priority !== undefined) {
+				encoding.priority = priority as RtpPriority;
+			}
+
+			if (networkPriority !== undefined) {
+				encoding.networkPriority = networkPriority as RtpPriority;
+			}
+
+			if (adaptivePtime !== undefined) {
+				encoding.adaptivePtime = adaptivePtime === '1';
+			}
+
+			if (dtx !== undefined) {
+				encoding.dtx = dtx === '1';
+			}
+
+			if (codecPayloadType !== undefined) {
+				encoding.codecPayloadType = Number(codecPayloadType);
+			}
+
+			encodings.push(encoding);
+		}
+	}
+
+	if (
+		encodings.length === 1 &&
+		tias !== undefined &&
+		encodings[0]!.maxBitrate === undefined
+	) {
+		encodings[0]!.maxBitrate = tias;
+	}
+
+	return { encodings, cname };
+}
+
+
+function serializeCodec(
+	kind: MediaKind,
+	payloadType: number,
+	codec: RtpCodecParameters | RtpCodecCapability
+): string[] {
+	const name = codec.mimeType.split('/')[1];
+	const lines = [
+		`a=rtpmap:${payloadType} ${name}/${codec.clockRate}${
+			kind === 'audio' && codec.channels && codec.channels > 1
+				? `/${codec.channels}`
+				: ''
+		}`,
+	];
+
+	for (const fb of codec.rtcpFeedback ?? []) {
+		lines.push(
+			`a=rtcp-fb:${payloadType} ${fb.type}${fb.parameter ? ` ${fb.parameter}` : ''}`
+		);
+	}
+
+	const fmtp = Object.entries(codec.parameters ?? {})
+		.filter(([, value]) => value !== undefined)
+		.map(([key, value]) => (key === '' ? `${value}` : `${key}=${value}`))
+		.join(';');
+
+	if (fmtp) {
+		lines.push(`a=fmtp:${payloadType} ${fmtp}`);
+	}
+
+	return lines;
+}
+
+
+function serializeExtmap(
+	id: number,
+	uri: string,
+	encrypt?: boolean,
+	direction?: RtpHeaderExtensionDirection
+): string {
+	return `a=extmap:${id}${
+		direction && direction !== 'sendrecv' ? `/${direction}` : ''
+	} ${encrypt ? `${EncryptUri} ` : ''}${uri}`;
+}
+
+
+function serializeSsrc(ssrc: number, cname?: string, msid?: string): string[] {
+	const lines = [`a=ssrc:${ssrc} cname:${cname ?? ''}`];
+
+	if (msid) {
+		lines.push(`a=ssrc:${ssrc} msid:${msid}`);
+	}
+
+	return lines;
+}
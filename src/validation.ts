@@ -0,0 +1,1165 @@
+import type {
+	RtpCapabilities,
+	RouterRtpCapabilities,
+	MediaKind,
+	RtpCodecCapability,
+	RouterRtpCodecCapability,
+	RtpHeaderExtension,
+	RtpParameters,
+	RtpCodecParameters,
+	RtcpFeedback,
+	RtpEncodingParameters,
+	RtpHeaderExtensionParameters,
+	RtcpParameters,
+	RtpPriority,
+} from './ortcRtpParametersTypes';
+
+import type {
+	SctpCapabilities,
+	NumSctpStreams,
+	SctpParameters,
+	SctpStreamParameters,
+} from './sctpParametersTypes';
+
+import { isMediaCodec } from './codecRegistry';
+
+import * as utils from './utils';
+import { joinPath } from './ortcUtils';
+import type { DeepReadonly } from './ortcUtils';
+
+import { ValidationError } from './ortcErrors';
+
+
+/**
+ * RTP stream priorities, from lowest to highest.
+ */
+export const RtpPriorities: RtpPriority[] = [
+	'very-low',
+	'low',
+	'medium',
+	'high',
+];
+
+
+/**
+ * Validates RtpCapabilities. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+export function validateRtpCapabilities(
+	caps: RtpCapabilities | RouterRtpCapabilities,
+	path = ''
+): void {
+	if (typeof caps !== 'object') {
+		throw new ValidationError('caps is not an object', {
+			code: 'INVALID_TYPE',
+			path,
+			value: caps,
+			expected: 'object',
+		});
+	}
+
+	// codecs is optional. If unset, fill with an empty array.
+	if (caps.codecs && !Array.isArray(caps.codecs)) {
+		throw new ValidationError('caps.codecs is not an array', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'codecs'),
+			value: caps.codecs,
+			expected: 'array',
+		});
+	} else if (!caps.codecs) {
+		caps.codecs = [];
+	}
+
+	for (const [idx, codec] of caps.codecs.entries()) {
+		validateRtpCodecCapability(codec, joinPath(joinPath(path, 'codecs'), idx));
+	}
+
+	// headerExtensions is optional. If unset, fill with an empty array.
+	if (caps.headerExtensions && !Array.isArray(caps.headerExtensions)) {
+		throw new ValidationError('caps.headerExtensions is not an array', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'headerExtensions'),
+			value: caps.headerExtensions,
+			expected: 'array',
+		});
+	} else if (!caps.headerExtensions) {
+		caps.headerExtensions = [];
+	}
+
+	for (const [idx, ext] of caps.headerExtensions.entries()) {
+		validateRtpHeaderExtension(
+			ext,
+			joinPath(joinPath(path, 'headerExtensions'), idx)
+		);
+	}
+}
+
+
+/**
+ * Validates RtpParameters. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+export function validateRtpParameters(params: RtpParameters, path = ''): void {
+	if (typeof params !== 'object') {
+		throw new ValidationError('params is not an object', {
+			code: 'INVALID_TYPE',
+			path,
+			value: params,
+			expected: 'object',
+		});
+	}
+
+	// mid is optional.
+	if (params.mid && typeof params.mid !== 'string') {
+		throw new ValidationError('params.mid is not a string', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'mid'),
+			value: params.mid,
+			expected: 'string',
+		});
+	}
+
+	// codecs is mandatory.
+	if (!Array.isArray(params.codecs)) {
+		throw new ValidationError('missing params.codecs', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'codecs'),
+			value: params.codecs,
+			expected: 'array',
+		});
+	}
+
+	for (const [idx, codec] of params.codecs.entries()) {
+		validateRtpCodecParameters(codec, joinPath(joinPath(path, 'codecs'), idx));
+	}
+
+	// headerExtensions is optional. If unset, fill with an empty array.
+	if (params.headerExtensions && !Array.isArray(params.headerExtensions)) {
+		throw new ValidationError('params.headerExtensions is not an array', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'headerExtensions'),
+			value: params.headerExtensions,
+			expected: 'array',
+		});
+	} else if (!params.headerExtensions) {
+		params.headerExtensions = [];
+	}
+
+	for (const [idx, ext] of params.headerExtensions.entries()) {
+		validateRtpHeaderExtensionParameters(
+			ext,
+			joinPath(joinPath(path, 'headerExtensions'), idx)
+		);
+	}
+
+	// encodings is optional. If unset, fill with an empty array.
+	if (params.encodings && !Array.isArray(params.encodings)) {
+		throw new ValidationError('params.encodings is not an array', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'encodings'),
+			value: params.encodings,
+			expected: 'array',
+		});
+	} else if (!params.encodings) {
+		params.encodings = [];
+	}
+
+	for (const [idx, encoding] of params.encodings.entries()) {
+		const encodingPath = joinPath(joinPath(path, 'encodings'), idx);
+
+		validateRtpEncodingParameters(encoding, encodingPath);
+
+		// codecPayloadType must be the one of a media codec.
+		if (
+			encoding.codecPayloadType !== undefined &&
+			!params.codecs.some(
+				codec =>
+					codec.payloadType === encoding.codecPayloadType &&
+					isMediaCodec(codec)
+			)
+		) {
+			throw new ValidationError(
+				'encoding.codecPayloadType is not the one of a media codec',
+				{
+					code: 'INVALID_VALUE',
+					path: joinPath(encodingPath, 'codecPayloadType'),
+					value: encoding.codecPayloadType,
+					expected: 'payload type of a media codec',
+				}
+			);
+		}
+	}
+
+	// rtcp is optional. If unset, fill with an empty object.
+	if (params.rtcp && typeof params.rtcp !== 'object') {
+		throw new ValidationError('params.rtcp is not an object', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'rtcp'),
+			value: params.rtcp,
+			expected: 'object',
+		});
+	} else if (!params.rtcp) {
+		params.rtcp = {};
+	}
+
+	validateRtcpParameters(params.rtcp, joinPath(path, 'rtcp'));
+}
+
+
+/**
+ * Like validateRtpCapabilities() but it doesn't modify given data. It returns
+ * a normalized deep copy of it instead.
+ * It throws if invalid.
+ */
+export function normalizeRtpCapabilities<
+	T extends RtpCapabilities | RouterRtpCapabilities,
+>(caps: DeepReadonly<T>, path = ''): T {
+	const normalizedCaps = utils.clone(caps) as T;
+
+	// This may throw.
+	validateRtpCapabilities(normalizedCaps, path);
+
+	return normalizedCaps;
+}
+
+
+/**
+ * Like validateRtpParameters() but it doesn't modify given data. It returns a
+ * normalized deep copy of it instead.
+ * It throws if invalid.
+ */
+export function normalizeRtpParameters(
+	params: DeepReadonly<RtpParameters>,
+	path = ''
+): RtpParameters {
+	const normalizedParams = utils.clone(params) as RtpParameters;
+
+	// This may throw.
+	validateRtpParameters(normalizedParams, path);
+
+	return normalizedParams;
+}
+
+
+/**
+ * Like validateRtpCodecCapability() but it doesn't modify given data. It
+ * returns a normalized deep copy of it instead.
+ * It throws if invalid.
+ */
+export function normalizeRtpCodecCapability<
+	T extends RtpCodecCapability | RouterRtpCodecCapability,
+>(codec: DeepReadonly<T>, path = ''): T {
+	const normalizedCodec = utils.clone(codec) as T;
+
+	// This may throw.
+	validateRtpCodecCapability(normalizedCodec, path);
+
+	return normalizedCodec;
+}
+
+
+/**
+ * Like validateRtcpFeedback() but it doesn't modify given data. It returns a
+ * normalized deep copy of it instead.
+ * It throws if invalid.
+ */
+export function normalizeRtcpFeedback(
+	fb: DeepReadonly<RtcpFeedback>,
+	path = ''
+): RtcpFeedback {
+	const normalizedFb = utils.clone(fb) as RtcpFeedback;
+
+	// This may throw.
+	validateRtcpFeedback(normalizedFb, path);
+
+	return normalizedFb;
+}
+
+
+/**
+ * Like validateRtpHeaderExtension() but it doesn't modify given data. It
+ * returns a normalized deep copy of it instead.
+ * It throws if invalid.
+ */
+export function normalizeRtpHeaderExtension(
+	ext: DeepReadonly<RtpHeaderExtension>,
+	path = ''
+): RtpHeaderExtension {
+	const normalizedExt = utils.clone(ext) as RtpHeaderExtension;
+
+	// This may throw.
+	validateRtpHeaderExtension(normalizedExt, path);
+
+	return normalizedExt;
+}
+
+
+/**
+ * Validates SctpStreamParameters. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+export function validateSctpStreamParameters(
+	params: SctpStreamParameters,
+	path = ''
+): void {
+	if (typeof params !== 'object') {
+		throw new ValidationError('params is not an object', {
+			code: 'INVALID_TYPE',
+			path,
+			value: params,
+			expected: 'object',
+		});
+	}
+
+	// streamId is mandatory.
+	if (typeof params.streamId !== 'number') {
+		throw new ValidationError('missing params.streamId', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'streamId'),
+			value: params.streamId,
+			expected: 'number',
+		});
+	}
+
+	// ordered is optional.
+	let orderedGiven = false;
+
+	if (typeof params.ordered === 'boolean') {
+		orderedGiven = true;
+	} else {
+		params.ordered = true;
+	}
+
+	// maxPacketLifeTime is optional.
+	if (
+		params.maxPacketLifeTime &&
+		typeof params.maxPacketLifeTime !== 'number'
+	) {
+		throw new ValidationError('invalid params.maxPacketLifeTime', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'maxPacketLifeTime'),
+			value: params.maxPacketLifeTime,
+			expected: 'number',
+		});
+	}
+
+	// maxRetransmits is optional.
+	if (params.maxRetransmits && typeof params.maxRetransmits !== 'number') {
+		throw new ValidationError('invalid params.maxRetransmits', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'maxRetransmits'),
+			value: params.maxRetransmits,
+			expected: 'number',
+		});
+	}
+
+	if (params.maxPacketLifeTime && params.maxRetransmits) {
+		throw new ValidationError(
+			'cannot provide both maxPacketLifeTime and maxRetransmits',
+			{
+				code: 'CONFLICTING_FIELDS',
+				path: joinPath(path, 'maxRetransmits'),
+				value: params.maxRetransmits,
+				expected: 'unset if maxPacketLifeTime is given',
+			}
+		);
+	}
+
+	if (
+		orderedGiven &&
+		params.ordered &&
+		(params.maxPacketLifeTime || params.maxRetransmits)
+	) {
+		throw new ValidationError(
+			'cannot be ordered with maxPacketLifeTime or maxRetransmits',
+			{
+				code: 'CONFLICTING_FIELDS',
+				path: joinPath(path, 'ordered'),
+				value: params.ordered,
+				expected: 'false if maxPacketLifeTime or maxRetransmits are given',
+			}
+		);
+	} else if (
+		!orderedGiven &&
+		(params.maxPacketLifeTime || params.maxRetransmits)
+	) {
+		params.ordered = false;
+	}
+}
+
+
+/**
+ * Validates SctpCapabilities. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+export function validateSctpCapabilities(
+	caps: SctpCapabilities,
+	path = ''
+): void {
+	if (typeof caps !== 'object') {
+		throw new ValidationError('caps is not an object', {
+			code: 'INVALID_TYPE',
+			path,
+			value: caps,
+			expected: 'object',
+		});
+	}
+
+	// numStreams is mandatory.
+	if (!caps.numStreams || typeof caps.numStreams !== 'object') {
+		throw new ValidationError('missing caps.numStreams', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'numStreams'),
+			value: caps.numStreams,
+			expected: 'object',
+		});
+	}
+
+	validateNumSctpStreams(caps.numStreams, joinPath(path, 'numStreams'));
+}
+
+
+/**
+ * Validates RtpCodecCapability. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+function validateRtpCodecCapability(
+	codec: RtpCodecCapability | RouterRtpCodecCapability,
+	path = ''
+): void {
+	const MimeTypeRegex = new RegExp('^(audio|video)/(.+)', 'i');
+
+	if (typeof codec !== 'object') {
+		throw new ValidationError('codec is not an object', {
+			code: 'INVALID_TYPE',
+			path,
+			value: codec,
+			expected: 'object',
+		});
+	}
+
+	// mimeType is mandatory.
+	if (!codec.mimeType || typeof codec.mimeType !== 'string') {
+		throw new ValidationError('missing codec.mimeType', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'mimeType'),
+			value: codec.mimeType,
+			expected: 'string',
+		});
+	}
+
+	const mimeTypeMatch = MimeTypeRegex.exec(codec.mimeType);
+
+	if (!mimeTypeMatch) {
+		throw new ValidationError('invalid codec.mimeType', {
+			code: 'INVALID_VALUE',
+			path: joinPath(path, 'mimeType'),
+			value: codec.mimeType,
+			expected: "'audio/*' or 'video/*'",
+		});
+	}
+
+	// Just override kind with media component of mimeType.
+	codec.kind = mimeTypeMatch[1]!.toLowerCase() as MediaKind;
+
+	// preferredPayloadType is optional in RouterRtpCodecCapability.
+	if (
+		codec.preferredPayloadType &&
+		typeof codec.preferredPayloadType !== 'number'
+	) {
+		throw new ValidationError('invalid codec.preferredPayloadType', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'preferredPayloadType'),
+			value: codec.preferredPayloadType,
+			expected: 'number',
+		});
+	}
+
+	// clockRate is mandatory.
+	if (typeof codec.clockRate !== 'number') {
+		throw new ValidationError('missing codec.clockRate', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'clockRate'),
+			value: codec.clockRate,
+			expected: 'number',
+		});
+	}
+
+	// channels is optional. If unset, set it to 1 (just if audio).
+	if (codec.kind === 'audio') {
+		if (typeof codec.channels !== 'number') {
+			codec.channels = 1;
+		}
+	} else {
+		delete codec.channels;
+	}
+
+	// parameters is optional. If unset, set it to an empty object.
+	if (!codec.parameters || typeof codec.parameters !== 'object') {
+		codec.parameters = {};
+	}
+
+	for (const key of Object.keys(codec.parameters)) {
+		let value = codec.parameters[key];
+
+		if (value === undefined) {
+			codec.parameters[key] = '';
+			value = '';
+		}
+
+		if (typeof value !== 'string' && typeof value !== 'number') {
+			throw new ValidationError(
+				`invalid codec parameter [key:${key}s, value:${value}]`,
+				{
+					code: 'INVALID_TYPE',
+					path: joinPath(joinPath(path, 'parameters'), key),
+					value,
+					expected: 'string or number',
+				}
+			);
+		}
+
+		// Specific parameters validation.
+		if (key === 'apt') {
+			if (typeof value !== 'number') {
+				throw new ValidationError('invalid codec apt parameter', {
+					code: 'INVALID_TYPE',
+					path: joinPath(joinPath(path, 'parameters'), key),
+					value,
+					expected: 'number',
+				});
+			}
+		}
+	}
+
+	// rtcpFeedback is optional. If unset, set it to an empty array.
+	if (!codec.rtcpFeedback || !Array.isArray(codec.rtcpFeedback)) {
+		codec.rtcpFeedback = [];
+	}
+
+	for (const [idx, fb] of codec.rtcpFeedback.entries()) {
+		validateRtcpFeedback(fb, joinPath(joinPath(path, 'rtcpFeedback'), idx));
+	}
+}
+
+
+/**
+ * Validates RtcpFeedback. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+function validateRtcpFeedback(fb: RtcpFeedback, path = ''): void {
+	if (typeof fb !== 'object') {
+		throw new ValidationError('fb is not an object', {
+			code: 'INVALID_TYPE',
+			path,
+			value: fb,
+			expected: 'object',
+		});
+	}
+
+	// type is mandatory.
+	if (!fb.type || typeof fb.type !== 'string') {
+		throw new ValidationError('missing fb.type', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'type'),
+			value: fb.type,
+			expected: 'string',
+		});
+	}
+
+	// parameter is optional. If unset set it to an empty string.
+	if (!fb.parameter || typeof fb.parameter !== 'string') {
+		fb.parameter = '';
+	}
+}
+
+
+/**
+ * Validates RtpHeaderExtension. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+function validateRtpHeaderExtension(ext: RtpHeaderExtension, path = ''): void {
+	if (typeof ext !== 'object') {
+		throw new ValidationError('ext is not an object', {
+			code: 'INVALID_TYPE',
+			path,
+			value: ext,
+			expected: 'object',
+		});
+	}
+
+	if (ext.kind !== 'audio' && ext.kind !== 'video') {
+		throw new ValidationError('invalid ext.kind', {
+			code: 'INVALID_VALUE',
+			path: joinPath(path, 'kind'),
+			value: ext.kind,
+			expected: "'audio' or 'video'",
+		});
+	}
+
+	// uri is mandatory.
+	if (!ext.uri || typeof ext.uri !== 'string') {
+		throw new ValidationError('missing ext.uri', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'uri'),
+			value: ext.uri,
+			expected: 'string',
+		});
+	}
+
+	// preferredId is mandatory.
+	if (typeof ext.preferredId !== 'number') {
+		throw new ValidationError('missing ext.preferredId', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'preferredId'),
+			value: ext.preferredId,
+			expected: 'number',
+		});
+	}
+
+	// preferredEncrypt is optional. If unset set it to false.
+	if (ext.preferredEncrypt && typeof ext.preferredEncrypt !== 'boolean') {
+		throw new ValidationError('invalid ext.preferredEncrypt', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'preferredEncrypt'),
+			value: ext.preferredEncrypt,
+			expected: 'boolean',
+		});
+	} else if (!ext.preferredEncrypt) {
+		ext.preferredEncrypt = false;
+	}
+
+	// direction is optional. If unset set it to sendrecv.
+	if (ext.direction && typeof ext.direction !== 'string') {
+		throw new ValidationError('invalid ext.direction', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'direction'),
+			value: ext.direction,
+			expected: 'string',
+		});
+	} else if (!ext.direction) {
+		ext.direction = 'sendrecv';
+	}
+}
+
+
+/**
+ * Validates RtpCodecParameters. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+export function validateRtpCodecParameters(
+	codec: RtpCodecParameters,
+	path = ''
+): void {
+	const MimeTypeRegex = new RegExp('^(audio|video)/(.+)', 'i');
+
+	if (typeof codec !== 'object') {
+		throw new ValidationError('codec is not an object', {
+			code: 'INVALID_TYPE',
+			path,
+			value: codec,
+			expected: 'object',
+		});
+	}
+
+	// mimeType is mandatory.
+	if (!codec.mimeType || typeof codec.mimeType !== 'string') {
+		throw new ValidationError('missing codec.mimeType', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'mimeType'),
+			value: codec.mimeType,
+			expected: 'string',
+		});
+	}
+
+	const mimeTypeMatch = MimeTypeRegex.exec(codec.mimeType);
+
+	if (!mimeTypeMatch) {
+		throw new ValidationError('invalid codec.mimeType', {
+			code: 'INVALID_VALUE',
+			path: joinPath(path, 'mimeType'),
+			value: codec.mimeType,
+			expected: "'audio/*' or 'video/*'",
+		});
+	}
+
+	// payloadType is mandatory.
+	if (typeof codec.payloadType !== 'number') {
+		throw new ValidationError('missing codec.payloadType', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'payloadType'),
+			value: codec.payloadType,
+			expected: 'number',
+		});
+	}
+
+	// clockRate is mandatory.
+	if (typeof codec.clockRate !== 'number') {
+		throw new ValidationError('missing codec.clockRate', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'clockRate'),
+			value: codec.clockRate,
+			expected: 'number',
+		});
+	}
+
+	const kind = mimeTypeMatch[1]!.toLowerCase() as MediaKind;
+
+	// channels is optional. If unset, set it to 1 (just if audio).
+	if (kind === 'audio') {
+		if (typeof codec.channels !== 'number') {
+			codec.channels = 1;
+		}
+	} else {
+		delete codec.channels;
+	}
+
+	// parameters is optional. If unset, set it to an empty object.
+	if (!codec.parameters || typeof codec.parameters !== 'object') {
+		codec.parameters = {};
+	}
+
+	for (const key of Object.keys(codec.parameters)) {
+		let value = codec.parameters[key];
+
+		if (value === undefined) {
+			codec.parameters[key] = '';
+			value = '';
+		}
+
+		if (typeof value !== 'string' && typeof value !== 'number') {
+			throw new ValidationError(
+				`invalid codec parameter [key:${key}s, value:${value}]`,
+				{
+					code: 'INVALID_TYPE',
+					path: joinPath(joinPath(path, 'parameters'), key),
+					value,
+					expected: 'string or number',
+				}
+			);
+		}
+
+		// Specific parameters validation.
+		if (key === 'apt') {
+			if (typeof value !== 'number') {
+				throw new ValidationError('invalid codec apt parameter', {
+					code: 'INVALID_TYPE',
+					path: joinPath(joinPath(path, 'parameters'), key),
+					value,
+					expected: 'number',
+				});
+			}
+		}
+	}
+
+	// rtcpFeedback is optional. If unset, set it to an empty array.
+	if (!codec.rtcpFeedback || !Array.isArray(codec.rtcpFeedback)) {
+		codec.rtcpFeedback = [];
+	}
+
+	for (const [idx, fb] of codec.rtcpFeedback.entries()) {
+		validateRtcpFeedback(fb, joinPath(joinPath(path, 'rtcpFeedback'), idx));
+	}
+}
+
+
+/**
+ * Validates RtpHeaderExtensionParameters. It may modify given data by adding
+ * missing fields with default values.
+ * It throws if invalid.
+ */
+export function validateRtpHeaderExtensionParameters(
+	ext: RtpHeaderExtensionParameters,
+	path = ''
+): void {
+	if (typeof ext !== 'object') {
+		throw new ValidationError('ext is not an object', {
+			code: 'INVALID_TYPE',
+			path,
+			value: ext,
+			expected: 'object',
+		});
+	}
+
+	// uri is mandatory.
+	if (!ext.uri || typeof ext.uri !== 'string') {
+		throw new ValidationError('missing ext.uri', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'uri'),
+			value: ext.uri,
+			expected: 'string',
+		});
+	}
+
+	// id is mandatory.
+	if (typeof ext.id !== 'number') {
+		throw new ValidationError('missing ext.id', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'id'),
+			value: ext.id,
+			expected: 'number',
+		});
+	}
+
+	// encrypt is optional. If unset set it to false.
+	if (ext.encrypt && typeof ext.encrypt !== 'boolean') {
+		throw new ValidationError('invalid ext.encrypt', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'encrypt'),
+			value: ext.encrypt,
+			expected: 'boolean',
+		});
+	} else if (!ext.encrypt) {
+		ext.encrypt = false;
+	}
+
+	// parameters is optional. If unset, set it to an empty object.
+	if (!ext.parameters || typeof ext.parameters !== 'object') {
+		ext.parameters = {};
+	}
+
+	for (const key of Object.keys(ext.parameters)) {
+		let value = ext.parameters[key];
+
+		if (value === undefined) {
+			ext.parameters[key] = '';
+			value = '';
+		}
+
+		if (typeof value !== 'string' && typeof value !== 'number') {
+			throw new ValidationError('invalid header extension parameter', {
+				code: 'INVALID_TYPE',
+				path: joinPath(joinPath(path, 'parameters'), key),
+				value,
+				expected: 'string or number',
+			});
+		}
+	}
+}
+
+
+/**
+ * Validates RtpEncodingParameters. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+export function validateRtpEncodingParameters(
+	encoding: RtpEncodingParameters,
+	path = ''
+): void {
+	if (typeof encoding !== 'object') {
+		throw new ValidationError('encoding is not an object', {
+			code: 'INVALID_TYPE',
+			path,
+			value: encoding,
+			expected: 'object',
+		});
+	}
+
+	// ssrc is optional.
+	if (encoding.ssrc && typeof encoding.ssrc !== 'number') {
+		throw new ValidationError('invalid encoding.ssrc', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'ssrc'),
+			value: encoding.ssrc,
+			expected: 'number',
+		});
+	}
+
+	// rid is optional.
+	if (encoding.rid && typeof encoding.rid !== 'string') {
+		throw new ValidationError('invalid encoding.rid', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'rid'),
+			value: encoding.rid,
+			expected: 'string',
+		});
+	}
+
+	// codecPayloadType is optional.
+	if (
+		encoding.codecPayloadType !== undefined &&
+		typeof encoding.codecPayloadType !== 'number'
+	) {
+		throw new ValidationError('invalid encoding.codecPayloadType', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'codecPayloadType'),
+			value: encoding.codecPayloadType,
+			expected: 'number',
+		});
+	}
+
+	// rtx is optional.
+	if (encoding.rtx && typeof encoding.rtx !== 'object') {
+		throw new ValidationError('invalid encoding.rtx', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'rtx'),
+			value: encoding.rtx,
+			expected: 'object',
+		});
+	} else if (encoding.rtx) {
+		// RTX ssrc is mandatory if rtx is present.
+		if (typeof encoding.rtx.ssrc !== 'number') {
+			throw new ValidationError('missing encoding.rtx.ssrc', {
+				code: 'MISSING_FIELD',
+				path: joinPath(path, 'rtx.ssrc'),
+				value: encoding.rtx.ssrc,
+				expected: 'number',
+			});
+		}
+	}
+
+	// fec is optional.
+	if (encoding.fec && typeof encoding.fec !== 'object') {
+		throw new ValidationError('invalid encoding.fec', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'fec'),
+			value: encoding.fec,
+			expected: 'object',
+		});
+	} else if (encoding.fec) {
+		// FEC ssrc is mandatory if fec is present.
+		if (typeof encoding.fec.ssrc !== 'number') {
+			throw new ValidationError('missing encoding.fec.ssrc', {
+				code: 'MISSING_FIELD',
+				path: joinPath(path, 'fec.ssrc'),
+				value: encoding.fec.ssrc,
+				expected: 'number',
+			});
+		}
+
+		// mechanism is optional.
+		if (
+			encoding.fec.mechanism !== undefined &&
+			typeof encoding.fec.mechanism !== 'string'
+		) {
+			throw new ValidationError('invalid encoding.fec.mechanism', {
+				code: 'INVALID_TYPE',
+				path: joinPath(path, 'fec.mechanism'),
+				value: encoding.fec.mechanism,
+				expected: 'string',
+			});
+		}
+	}
+
+	// dtx is optional. If unset set it to false.
+	if (!encoding.dtx || typeof encoding.dtx !== 'boolean') {
+		encoding.dtx = false;
+	}
+
+	// scalabilityMode is optional.
+	if (
+		encoding.scalabilityMode &&
+		typeof encoding.scalabilityMode !== 'string'
+	) {
+		throw new ValidationError('invalid encoding.scalabilityMode', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'scalabilityMode'),
+			value: encoding.scalabilityMode,
+			expected: 'string',
+		});
+	}
+
+	// maxFramerate is optional.
+	if (encoding.maxFramerate !== undefined) {
+		if (typeof encoding.maxFramerate !== 'number') {
+			throw new ValidationError('invalid encoding.maxFramerate', {
+				code: 'INVALID_TYPE',
+				path: joinPath(path, 'maxFramerate'),
+				value: encoding.maxFramerate,
+				expected: 'number',
+			});
+		}
+
+		if (!(encoding.maxFramerate > 0)) {
+			throw new ValidationError('invalid encoding.maxFramerate', {
+				code: 'INVALID_VALUE',
+				path: joinPath(path, 'maxFramerate'),
+				value: encoding.maxFramerate,
+				expected: 'positive number',
+			});
+		}
+	}
+
+	// scaleResolutionDownBy is optional.
+	if (encoding.scaleResolutionDownBy !== undefined) {
+		if (typeof encoding.scaleResolutionDownBy !== 'number') {
+			throw new ValidationError('invalid encoding.scaleResolutionDownBy', {
+				code: 'INVALID_TYPE',
+				path: joinPath(path, 'scaleResolutionDownBy'),
+				value: encoding.scaleResolutionDownBy,
+				expected: 'number',
+			});
+		}
+
+		if (!(encoding.scaleResolutionDownBy >= 1)) {
+			throw new ValidationError('invalid encoding.scaleResolutionDownBy', {
+				code: 'INVALID_VALUE',
+				path: joinPath(path, 'scaleResolutionDownBy'),
+				value: encoding.scaleResolutionDownBy,
+				expected: 'number greater than or equal to 1',
+			});
+		}
+	}
+
+	// active and adaptivePtime are optional.
+	for (const key of ['active', 'adaptivePtime'] as const) {
+		if (encoding[key] !== undefined && typeof encoding[key] !== 'boolean') {
+			throw new ValidationError(`invalid encoding.${key}`, {
+				code: 'INVALID_TYPE',
+				path: joinPath(path, key),
+				value: encoding[key],
+				expected: 'boolean',
+			});
+		}
+	}
+
+	// priority and networkPriority are optional.
+	for (const key of ['priority', 'networkPriority'] as const) {
+		if (encoding[key] !== undefined && !RtpPriorities.includes(encoding[key])) {
+			throw new ValidationError(`invalid encoding.${key}`, {
+				code: 'INVALID_VALUE',
+				path: joinPath(path, key),
+				value: encoding[key],
+				expected: `one of ${RtpPriorities.join(', ')}`,
+			});
+		}
+	}
+}
+
+
+/**
+ * Validates RtcpParameters. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+export function validateRtcpParameters(rtcp: RtcpParameters, path = ''): void {
+	if (typeof rtcp !== 'object') {
+		throw new ValidationError('rtcp is not an object', {
+			code: 'INVALID_TYPE',
+			path,
+			value: rtcp,
+			expected: 'object',
+		});
+	}
+
+	// cname is optional.
+	if (rtcp.cname && typeof rtcp.cname !== 'string') {
+		throw new ValidationError('invalid rtcp.cname', {
+			code: 'INVALID_TYPE',
+			path: joinPath(path, 'cname'),
+			value: rtcp.cname,
+			expected: 'string',
+		});
+	}
+
+	// reducedSize is optional. If unset set it to true.
+	if (!rtcp.reducedSize || typeof rtcp.reducedSize !== 'boolean') {
+		rtcp.reducedSize = true;
+	}
+}
+
+
+/**
+ * Validates NumSctpStreams. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+function validateNumSctpStreams(numStreams: NumSctpStreams, path = ''): void {
+	if (typeof numStreams !== 'object') {
+		throw new ValidationError('numStreams is not an object', {
+			code: 'INVALID_TYPE',
+			path,
+			value: numStreams,
+			expected: 'object',
+		});
+	}
+
+	// OS is mandatory.
+	if (typeof numStreams.OS !== 'number') {
+		throw new ValidationError('missing numStreams.OS', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'OS'),
+			value: numStreams.OS,
+			expected: 'number',
+		});
+	}
+
+	// MIS is mandatory.
+	if (typeof numStreams.MIS !== 'number') {
+		throw new ValidationError('missing numStreams.MIS', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'MIS'),
+			value: numStreams.MIS,
+			expected: 'number',
+		});
+	}
+}
+
+
+/**
+ * Validates SctpParameters. It may modify given data by adding missing
+ * fields with default values.
+ * It throws if invalid.
+ */
+export function validateSctpParameters(
+	params: SctpParameters,
+	path = ''
+): void {
+	if (typeof params !== 'object') {
+		throw new ValidationError('params is not an object', {
+			code: 'INVALID_TYPE',
+			path,
+			value: params,
+			expected: 'object',
+		});
+	}
+
+	// port is mandatory.
+	if (typeof params.port !== 'number') {
+		throw new ValidationError('missing params.port', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'port'),
+			value: params.port,
+			expected: 'number',
+		});
+	}
+
+	// OS is mandatory.
+	if (typeof params.OS !== 'number') {
+		throw new ValidationError('missing params.OS', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'OS'),
+			value: params.OS,
+			expected: 'number',
+		});
+	}
+
+	// MIS is mandatory.
+	if (typeof params.MIS !== 'number') {
+		throw new ValidationError('missing params.MIS', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'MIS'),
+			value: params.MIS,
+			expected: 'number',
+		});
+	}
+
+	// maxMessageSize is mandatory.
+	if (typeof params.maxMessageSize !== 'number') {
+		throw new ValidationError('missing params.maxMessageSize', {
+			code: 'MISSING_FIELD',
+			path: joinPath(path, 'maxMessageSize'),
+			value: params.maxMessageSize,
+			expected: 'number',
+		});
+	}
+}